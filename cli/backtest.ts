@@ -0,0 +1,90 @@
+import { parseArgs } from 'util';
+import { CONFIG } from '../config';
+import { runBacktest, formatBacktestReport } from '../core/backtest';
+import { listRecordingFiles } from '../core/feedRecorder';
+import { selectStrategies } from '../core/activeStrategies';
+import logger from '../services/logger';
+
+const USAGE = `
+用法: node dist/cli/backtest.js [选项]
+
+  --date <YYYY-MM-DD>     回测起始日期
+  --to-date <YYYY-MM-DD>  回测结束日期 (默认同 --date)
+  --file <path>           指定录制文件 (可重复)
+  --dir <path>            录制目录 (默认 CONFIG.RECORDER.DIR)
+  --strategy <name>       只回测指定策略 (可重复，默认 CONFIG.STRATEGIES_PATH 中的全部策略)
+  --slippage-bps <n>      滑点 (默认 SIM_SLIPPAGE_BPS)
+  --fee-bps <n>           手续费 (默认 SIM_SWAP_FEE_BPS)
+  --network-fee <sol>     每笔网络费 (默认 SIM_NETWORK_FEE_SOL)
+  --impact-bps <n>        每成交 1 SOL 的价格冲击 (默认 SIM_PRICE_IMPACT_BPS_PER_SOL)
+  --latency-ms <n>        成交延迟 (默认 SIM_LATENCY_MS)
+  --json                  输出 JSON
+  --verbose               输出交易日志
+`;
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+    if (value === undefined) return fallback;
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0) {
+        throw new Error(`Invalid --${name}: ${value}`);
+    }
+    return parsed;
+}
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            date: { type: 'string' },
+            'to-date': { type: 'string' },
+            file: { type: 'string', multiple: true },
+            dir: { type: 'string', default: CONFIG.RECORDER.DIR },
+            strategy: { type: 'string', multiple: true },
+            'slippage-bps': { type: 'string' },
+            'fee-bps': { type: 'string' },
+            'network-fee': { type: 'string' },
+            'impact-bps': { type: 'string' },
+            'latency-ms': { type: 'string' },
+            json: { type: 'boolean', default: false },
+            verbose: { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const files = values.file?.length
+        ? values.file
+        : listRecordingFiles(values.dir!, values.date, values['to-date'] || values.date);
+    if (files.length === 0) {
+        console.error('❌ No recording files found');
+        console.log(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+
+    if (!values.verbose) logger.level = 'warn';
+
+    const report = await runBacktest({
+        files,
+        strategies: selectStrategies(values.strategy),
+        fillModel: {
+            SLIPPAGE_BPS: parseNumber('slippage-bps', values['slippage-bps'], CONFIG.SIMULATION.SLIPPAGE_BPS),
+            SWAP_FEE_BPS: parseNumber('fee-bps', values['fee-bps'], CONFIG.SIMULATION.SWAP_FEE_BPS),
+            NETWORK_FEE_SOL: parseNumber('network-fee', values['network-fee'], CONFIG.SIMULATION.NETWORK_FEE_SOL),
+            PRICE_IMPACT_BPS_PER_SOL: parseNumber('impact-bps', values['impact-bps'], CONFIG.SIMULATION.PRICE_IMPACT_BPS_PER_SOL),
+            LATENCY_MS: parseNumber('latency-ms', values['latency-ms'], CONFIG.SIMULATION.LATENCY_MS)
+        }
+    });
+
+    console.log(values.json ? JSON.stringify(report, null, 2) : formatBacktestReport(report));
+}
+
+main()
+    .catch(error => {
+        logger.error('Backtest failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => process.exit());
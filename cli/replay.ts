@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { CONFIG } from '../config';
+import { WebSocketHandler } from '../core/websocket';
+import { FeedReplayer } from '../core/replay';
+import { listRecordingFiles } from '../core/feedRecorder';
+import { DEFAULT_DB_PATH } from '../database/tradingDb';
+import { setTelegramEnabled } from '../services/telegram/message';
+import logger from '../services/logger';
+
+const USAGE = `
+用法: node dist/cli/replay.js [选项]
+
+  --date <YYYY-MM-DD>     回放某一天的录制 (可与 --to-date 组成区间)
+  --to-date <YYYY-MM-DD>  区间结束日期
+  --file <path>           指定录制文件 (可重复)
+  --dir <path>            录制目录 (默认 CONFIG.RECORDER.DIR)
+  --speed <n|max>         1 = 实时, 10 = 10倍速, max = 尽快 (默认 max)
+  --db <path>             回放用的 SQLite 文件 (默认 ./data/replay.db)
+  --keep-db               不清空已有的回放数据库
+`;
+
+function parseSpeed(value: string | undefined): number {
+    if (!value || value === 'max') return 0;
+    const speed = parseFloat(value);
+    if (isNaN(speed) || speed < 0) {
+        throw new Error(`Invalid --speed: ${value}`);
+    }
+    return speed;
+}
+
+function resetDatabase(dbPath: string): void {
+    for (const suffix of ['', '-wal', '-shm']) {
+        if (fs.existsSync(dbPath + suffix)) fs.unlinkSync(dbPath + suffix);
+    }
+}
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            date: { type: 'string' },
+            'to-date': { type: 'string' },
+            file: { type: 'string', multiple: true },
+            dir: { type: 'string', default: CONFIG.RECORDER.DIR },
+            speed: { type: 'string' },
+            db: { type: 'string', default: './data/replay.db' },
+            'keep-db': { type: 'boolean', default: false },
+            help: { type: 'boolean', default: false }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const files = values.file?.length
+        ? values.file
+        : listRecordingFiles(values.dir!, values.date, values['to-date'] || values.date);
+    if (files.length === 0) {
+        console.error('❌ No recording files found');
+        console.log(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+
+    const dbPath = values.db!;
+    if (path.resolve(dbPath) === path.resolve(DEFAULT_DB_PATH)) {
+        throw new Error('Refusing to replay into the live database');
+    }
+    if (!values['keep-db']) resetDatabase(dbPath);
+
+    // 回放强制模拟交易，不推送 Telegram
+    CONFIG.TRADE_ENABLED = false;
+    setTelegramEnabled(false);
+
+    const handler = new WebSocketHandler(dbPath);
+    const replayer = new FeedReplayer(handler, { files, speed: parseSpeed(values.speed) });
+    process.on('SIGINT', () => replayer.stop());
+
+    try {
+        const summary = await replayer.run();
+        const stats = handler.getStats();
+
+        console.log('\n📼 Replay summary');
+        console.log(`   Files: ${files.length}`);
+        console.log(`   Frames: ${summary.frames} (${summary.tokens} tokens)`);
+        if (summary.startTime !== null && summary.endTime !== null) {
+            console.log(`   Window: ${new Date(summary.startTime).toISOString()} → ${new Date(summary.endTime).toISOString()}`);
+        }
+        console.log(`   Active positions: ${stats.positions.activePositions}`);
+        console.log(`   Pending orders: ${stats.orders.pending}`);
+        console.log(`   Database: ${dbPath}`);
+    } finally {
+        handler.close();
+    }
+}
+
+main()
+    .catch(error => {
+        logger.error('Replay failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => process.exit());
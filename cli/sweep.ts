@@ -0,0 +1,89 @@
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { CONFIG } from '../config';
+import { listRecordingFiles } from '../core/feedRecorder';
+import { formatSweepTable, parseSweepParam, rankSweepResults, runSweep, SweepSortKey } from '../core/sweep';
+import { selectStrategies } from '../core/activeStrategies';
+import logger from '../services/logger';
+
+const USAGE = `
+用法: node dist/cli/sweep.js --param NAME=a,b,c --param NAME=from:to:step [选项]
+
+  --param <spec>          扫描参数，可重复。NAME 为 CONFIG.STRATEGY 的键或筛选规则的 id
+                          例: --param INITIAL_STOP_LOSS=-80:-40:10 --param kol_min=3,4,5
+  --date <YYYY-MM-DD>     起始日期
+  --to-date <YYYY-MM-DD>  结束日期 (默认同 --date)
+  --file <path>           指定录制文件 (可重复)
+  --dir <path>            录制目录 (默认 CONFIG.RECORDER.DIR)
+  --strategy <name>       只回测指定策略 (可重复，默认 CONFIG.STRATEGIES_PATH 中的全部策略)
+  --workers <n>           工作线程数 (默认 CPU 核数)
+  --sort <key>            realizedPnl | totalPnl | winRate | maxDrawdown (默认 realizedPnl)
+  --top <n>               输出前 n 名 (默认 20)
+  --out <path>            把全部结果写入 JSON 文件
+
+筛选规则 id 见 CONFIG.FILTER_RULES_PATH (默认 config/filterRules.json)，如 mc_min mc_max kol_min t10_min t10_max
+`;
+
+const SORT_KEYS: SweepSortKey[] = ['realizedPnl', 'totalPnl', 'winRate', 'maxDrawdown'];
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            param: { type: 'string', multiple: true },
+            date: { type: 'string' },
+            'to-date': { type: 'string' },
+            file: { type: 'string', multiple: true },
+            dir: { type: 'string', default: CONFIG.RECORDER.DIR },
+            strategy: { type: 'string', multiple: true },
+            workers: { type: 'string' },
+            sort: { type: 'string', default: 'realizedPnl' },
+            top: { type: 'string', default: '20' },
+            out: { type: 'string' },
+            help: { type: 'boolean', default: false }
+        }
+    });
+
+    if (values.help || !values.param?.length) {
+        console.log(USAGE);
+        return;
+    }
+
+    const sortBy = values.sort as SweepSortKey;
+    if (!SORT_KEYS.includes(sortBy)) {
+        throw new Error(`Invalid --sort: ${values.sort}`);
+    }
+
+    const files = values.file?.length
+        ? values.file
+        : listRecordingFiles(values.dir!, values.date, values['to-date'] || values.date);
+    if (files.length === 0) {
+        console.error('❌ No recording files found');
+        process.exitCode = 1;
+        return;
+    }
+
+    const strategies = selectStrategies(values.strategy);
+    const params = values.param.map(spec => parseSweepParam(spec, strategies));
+    const results = await runSweep({
+        files,
+        params,
+        fillModel: CONFIG.SIMULATION,
+        strategies: values.strategy,
+        workers: values.workers ? parseInt(values.workers) : undefined
+    });
+
+    const ranked = rankSweepResults(results, sortBy);
+    console.log(formatSweepTable(ranked, params.map(p => p.name), parseInt(values.top!)));
+
+    if (values.out) {
+        fs.writeFileSync(values.out, JSON.stringify(ranked, null, 2));
+        console.log(`\n💾 Results written to ${values.out}`);
+    }
+}
+
+main()
+    .catch(error => {
+        logger.error('Sweep failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => process.exit());
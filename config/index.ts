@@ -1,52 +1,152 @@
-import { TradingConfig } from '../types';
+import { FeedSourceType, Strategy, TradingConfig } from '../types';
+import { loadFilterRules } from '../core/filterRules';
+import { loadStrategies, validateStrategyParams } from '../core/strategies';
 import dotenv from "dotenv"
 dotenv.config()
-export const CONFIG: TradingConfig = {
-    // 交易开关
-    TRADE_ENABLED: true,
-
-    // 每次买入使用的SOL数量
-    SOL_INVESTMENT_AMOUNT: 0.01,
-
-    // 风险管理
-    RISK: {
-        MAX_POSITIONS: parseInt(process.env.MAX_POSITIONS || '30')
-    },
-
-    // 交易策略
-    STRATEGY: {
-        // 初始止损百分比（负数）
-        INITIAL_STOP_LOSS: parseFloat(process.env.INITIAL_STOP_LOSS || '-65'),
-
-        // 翻倍止盈阈值
-        DOUBLE_PROFIT_THRESHOLD: parseFloat(process.env.DOUBLE_PROFIT_THRESHOLD || '100'),
-
-        // 翻倍时卖出比例
-        DOUBLE_SELL_RATIO: parseFloat(process.env.DOUBLE_SELL_RATIO || '50'),
-
-        // 目标市值1 (200K)
-        TARGET_MC_1: parseFloat(process.env.TARGET_MC_1 || '200000'),
-        TARGET_MC_1_RATIO: parseFloat(process.env.TARGET_MC_1_RATIO || '50'),
-
-        // 目标市值2 (900K)
-        TARGET_MC_2: parseFloat(process.env.TARGET_MC_2 || '900000'),
-        TARGET_MC_2_RATIO: parseFloat(process.env.TARGET_MC_2_RATIO || '100'),
-
-        // LFG触发卖出比例
-        LFG_SELL_RATIO: parseFloat(process.env.LFG_SELL_RATIO || '65')
-    },
-    // 
-    SOLANA: {
-        WALLET_KEY: process.env.PRIVATE_KEY,
-        RPC: "https://delicate-bitter-meadow.solana-mainnet.quiknode.pro/cfcf4b66ee16de962b28fb9cbed2a2cd66ed5329/"
-    },
-    LOGGER_FILE_PATH: "logs/Dogs"
-};
+/**
+ * 从环境变量构造配置 (热重载时用重新读取的 .env 再构造一次)
+ */
+export function buildConfig(env: NodeJS.ProcessEnv = process.env): TradingConfig {
+    return {
+        // 交易开关 (false 为模拟交易: 按 SIMULATION 模型模拟成交，不发送链上交易)
+        TRADE_ENABLED: env.TRADE_ENABLED !== 'false',
+
+        // 每次买入使用的SOL数量
+        SOL_INVESTMENT_AMOUNT: 0.01,
+
+        // 风险管理
+        RISK: {
+            MAX_POSITIONS: parseInt(env.MAX_POSITIONS || '30')
+        },
+
+        // 交易策略
+        STRATEGY: {
+            // 初始止损百分比（负数）
+            INITIAL_STOP_LOSS: parseFloat(env.INITIAL_STOP_LOSS || '-65'),
+
+            // 翻倍止盈阈值
+            DOUBLE_PROFIT_THRESHOLD: parseFloat(env.DOUBLE_PROFIT_THRESHOLD || '100'),
+
+            // 翻倍时卖出比例
+            DOUBLE_SELL_RATIO: parseFloat(env.DOUBLE_SELL_RATIO || '50'),
+
+            // 目标市值1 (200K)
+            TARGET_MC_1: parseFloat(env.TARGET_MC_1 || '200000'),
+            TARGET_MC_1_RATIO: parseFloat(env.TARGET_MC_1_RATIO || '50'),
+
+            // 目标市值2 (900K)
+            TARGET_MC_2: parseFloat(env.TARGET_MC_2 || '900000'),
+            TARGET_MC_2_RATIO: parseFloat(env.TARGET_MC_2_RATIO || '100'),
+
+            // LFG触发卖出比例
+            LFG_SELL_RATIO: parseFloat(env.LFG_SELL_RATIO || '65'),
+
+            // 回撤单: 最高收益率达到 ACTIVATION% 后，市值从最高点回撤 PERCENT% 时卖出 RATIO% (PERCENT 为 0 时不挂单)
+            TRAILING_STOP_PERCENT: parseFloat(env.TRAILING_STOP_PERCENT || '0'),
+            TRAILING_STOP_ACTIVATION: parseFloat(env.TRAILING_STOP_ACTIVATION || '100'),
+            TRAILING_STOP_RATIO: parseFloat(env.TRAILING_STOP_RATIO || '100'),
+
+            // 超时单: 持仓超过 MINUTES 分钟且收益率低于 MAX_GAIN% 时卖出 RATIO% (MINUTES 为 0 时不挂单)
+            TIME_EXIT_MINUTES: parseFloat(env.TIME_EXIT_MINUTES || '0'),
+            TIME_EXIT_MAX_GAIN: parseFloat(env.TIME_EXIT_MAX_GAIN || '20'),
+            TIME_EXIT_RATIO: parseFloat(env.TIME_EXIT_RATIO || '100'),
+
+            // 止盈单开仓后多少分钟未触发则过期 (0 为不过期)
+            TAKE_PROFIT_TTL_MINUTES: parseFloat(env.TAKE_PROFIT_TTL_MINUTES || '0'),
+
+            // 订单联动: 翻倍止盈成交后止损移到保本 / 目标市值1成交后才挂回撤单
+            BREAK_EVEN_AFTER_DOUBLE: env.BREAK_EVEN_AFTER_DOUBLE === 'true' ? 1 : 0,
+            TRAILING_AFTER_TARGET_1: env.TRAILING_AFTER_TARGET_1 === 'true' ? 1 : 0,
+            // LFG卖出单和目标市值1只成交先触发的一个
+            LFG_OR_TARGET_MC_1: env.LFG_OR_TARGET_MC_1 === 'true' ? 1 : 0,
+
+            // 指标单: 任一指标相对开仓恶化时卖出 HEALTH_EXIT_RATIO% (全部为 0 时不挂单)
+            HEALTH_EXIT_HOLDER_DROP: parseFloat(env.HEALTH_EXIT_HOLDER_DROP || '0'),
+            HEALTH_EXIT_T10_RISE: parseFloat(env.HEALTH_EXIT_T10_RISE || '0'),
+            HEALTH_EXIT_VOLUME_DROP: parseFloat(env.HEALTH_EXIT_VOLUME_DROP || '0'),
+            HEALTH_EXIT_DEV_STATUS: env.HEALTH_EXIT_DEV_STATUS === 'true' ? 1 : 0,
+            HEALTH_EXIT_RATIO: parseFloat(env.HEALTH_EXIT_RATIO || '100'),
+
+            // 出场订单的卖出比例默认按当前剩余数量计算，true 时按开仓买入数量
+            SELL_RATIO_OF_ORIGINAL: env.SELL_RATIO_OF_ORIGINAL === 'true' ? 1 : 0
+        },
+        // 
+        SOLANA: {
+            WALLET_KEY: env.PRIVATE_KEY,
+            RPC: "https://delicate-bitter-meadow.solana-mainnet.quiknode.pro/cfcf4b66ee16de962b28fb9cbed2a2cd66ed5329/"
+        },
+        // 筛选规则文件 (修改后自动重新加载，无需重启)
+        FILTER_RULES_PATH: env.FILTER_RULES_PATH || './config/filterRules.json',
+        // 多策略文件 (格式见 config/strategies.example.json)
+        STRATEGIES_PATH: env.STRATEGIES_PATH || './config/strategies.json',
+        // 评分模型文件 (不存在时不评分)
+        SCORE_MODEL_PATH: env.SCORE_MODEL_PATH || './config/scoreModel.json',
+        // 配置热重载
+        MIGRATE_PENDING_ORDERS: env.MIGRATE_PENDING_ORDERS === 'true',
+        CONFIG_RELOAD_INTERVAL: parseInt(env.CONFIG_RELOAD_INTERVAL || '2000'),
+        // 没有新行情时也定时检查超时单和过期订单
+        ORDER_SCHEDULER_INTERVAL: parseInt(env.ORDER_SCHEDULER_INTERVAL || '10000'),
+        // 失败订单重试 (指数退避)
+        RETRY: {
+            MAX_RETRIES: parseInt(env.ORDER_RETRY_MAX || '5'),
+            BASE_DELAY: parseInt(env.ORDER_RETRY_BASE_DELAY || '5000'),
+            MAX_DELAY: parseInt(env.ORDER_RETRY_MAX_DELAY || '120000'),
+            STOP_LOSS_IMMEDIATE: parseInt(env.ORDER_RETRY_STOP_LOSS_IMMEDIATE || '2')
+        },
+        // 开仓前的观察名单
+        WATCHLIST: {
+            CONFIRM_FRAMES: parseInt(env.WATCHLIST_CONFIRM_FRAMES || '3'),
+            CONFIRM_SECONDS: parseFloat(env.WATCHLIST_CONFIRM_SECONDS || '10'),
+            MAX_HOLDER_DROP: parseFloat(env.WATCHLIST_MAX_HOLDER_DROP || '10'),
+            MAX_VOLUME_DROP: parseFloat(env.WATCHLIST_MAX_VOLUME_DROP || '30'),
+            EXPIRE_SECONDS: parseFloat(env.WATCHLIST_EXPIRE_SECONDS || '300')
+        },
+        // 差一两条规则的代币记录与汇总
+        NEAR_MISS: {
+            MAX_FAILED_RULES: parseInt(env.NEAR_MISS_MAX_FAILED_RULES || '2'),
+            DIGEST_INTERVAL: parseInt(env.NEAR_MISS_DIGEST_INTERVAL || '60'),
+            GOOD_MULTIPLIER: parseFloat(env.NEAR_MISS_GOOD_MULTIPLIER || '2')
+        },
+        // 行情数据源
+        FEED: {
+            SOURCE: (env.FEED_SOURCE || 'ws') as FeedSourceType,
+            WS_URL: env.GMGN_WS_URL || 'wss://ws.gmgn.ai/quotation',
+            CHAIN: env.GMGN_CHAIN || 'sol',
+            PROXY: env.FEED_PROXY,
+            HEARTBEAT_INTERVAL: parseInt(env.FEED_HEARTBEAT_INTERVAL || '15000'),
+            RECONNECT_BASE_DELAY: parseInt(env.FEED_RECONNECT_BASE_DELAY || '1000'),
+            RECONNECT_MAX_DELAY: parseInt(env.FEED_RECONNECT_MAX_DELAY || '60000'),
+            BROWSER_PATH: env.CHROMIUM_PATH || '/usr/bin/chromium-browser',
+            STALE_TIMEOUT: parseInt(env.FEED_STALE_TIMEOUT || '90000'),
+            WATCHDOG_INTERVAL: parseInt(env.FEED_WATCHDOG_INTERVAL || '10000'),
+            RESTART_COOLDOWN: parseInt(env.FEED_RESTART_COOLDOWN || '30000')
+        },
+        // 模拟成交 (回测 / 模拟交易)
+        SIMULATION: {
+            SLIPPAGE_BPS: parseFloat(env.SIM_SLIPPAGE_BPS || '300'),
+            SWAP_FEE_BPS: parseFloat(env.SIM_SWAP_FEE_BPS || '100'),
+            NETWORK_FEE_SOL: parseFloat(env.SIM_NETWORK_FEE_SOL || '0.0002'),
+            PRICE_IMPACT_BPS_PER_SOL: parseFloat(env.SIM_PRICE_IMPACT_BPS_PER_SOL || '0'),
+            LATENCY_MS: parseFloat(env.SIM_LATENCY_MS || '0')
+        },
+        // 模拟交易的初始虚拟余额 (SOL)，之后按模拟交易记录累计
+        PAPER_SOL_BALANCE: parseFloat(env.PAPER_SOL_BALANCE || '10'),
+        // 原始行情录制 (用于回放/回测)
+        RECORDER: {
+            ENABLED: env.FEED_RECORDER_ENABLED === 'true',
+            DIR: env.FEED_RECORDER_DIR || './data/feed',
+            FLUSH_INTERVAL: parseInt(env.FEED_RECORDER_FLUSH_INTERVAL || '10000')
+        },
+        LOGGER_FILE_PATH: "logs/Dogs"
+    };
+}
+
+export const CONFIG: TradingConfig = buildConfig();
 
 // 打印配置信息（启动时）
 export function printConfig(): void {
     console.log('🔧 Trading Configuration:');
-    console.log(`   Trade Enabled: ${CONFIG.TRADE_ENABLED ? '✅' : '❌'}`);
+    console.log(`   Trade Enabled: ${CONFIG.TRADE_ENABLED ? '✅' : `❌ (paper trading, initial balance ${CONFIG.PAPER_SOL_BALANCE} SOL)`}`);
     console.log(`   SOL Investment: ${CONFIG.SOL_INVESTMENT_AMOUNT} SOL per position`);
     console.log(`   Max Positions: ${CONFIG.RISK.MAX_POSITIONS}`);
     console.log(`   Stop Loss: ${CONFIG.STRATEGY.INITIAL_STOP_LOSS}%`);
@@ -54,42 +154,119 @@ export function printConfig(): void {
     console.log(`   Target MC1: ${CONFIG.STRATEGY.TARGET_MC_1} (sell ${CONFIG.STRATEGY.TARGET_MC_1_RATIO}%)`);
     console.log(`   Target MC2: ${CONFIG.STRATEGY.TARGET_MC_2} (sell ${CONFIG.STRATEGY.TARGET_MC_2_RATIO}%)`);
     console.log(`   LFG Sell: ${CONFIG.STRATEGY.LFG_SELL_RATIO}%`);
+    console.log(`   Trailing Stop: ${CONFIG.STRATEGY.TRAILING_STOP_PERCENT > 0
+        ? `${CONFIG.STRATEGY.TRAILING_STOP_PERCENT}% from peak after +${CONFIG.STRATEGY.TRAILING_STOP_ACTIVATION}% (sell ${CONFIG.STRATEGY.TRAILING_STOP_RATIO}%)`
+        : '❌'}`);
+    console.log(`   Time Exit: ${CONFIG.STRATEGY.TIME_EXIT_MINUTES > 0
+        ? `after ${CONFIG.STRATEGY.TIME_EXIT_MINUTES}min if gain < ${CONFIG.STRATEGY.TIME_EXIT_MAX_GAIN}% (sell ${CONFIG.STRATEGY.TIME_EXIT_RATIO}%)`
+        : '❌'}`);
+    console.log(`   Take Profit TTL: ${CONFIG.STRATEGY.TAKE_PROFIT_TTL_MINUTES > 0 ? `${CONFIG.STRATEGY.TAKE_PROFIT_TTL_MINUTES}min` : '❌'}`);
+    console.log(`   Break Even After Double: ${CONFIG.STRATEGY.BREAK_EVEN_AFTER_DOUBLE ? '✅' : '❌'}`);
+    console.log(`   Trailing Stop After Target 1: ${CONFIG.STRATEGY.TRAILING_AFTER_TARGET_1 ? '✅' : '❌'}`);
+    console.log(`   LFG Sell OCO Target 1: ${CONFIG.STRATEGY.LFG_OR_TARGET_MC_1 ? '✅' : '❌'}`);
+    console.log(`   Health Exit: holders -${CONFIG.STRATEGY.HEALTH_EXIT_HOLDER_DROP}% / t10 +${CONFIG.STRATEGY.HEALTH_EXIT_T10_RISE}% / v1h -${CONFIG.STRATEGY.HEALTH_EXIT_VOLUME_DROP}% / dev status ${CONFIG.STRATEGY.HEALTH_EXIT_DEV_STATUS ? '✅' : '❌'} (sell ${CONFIG.STRATEGY.HEALTH_EXIT_RATIO}%, 0 = off)`);
+    console.log(`   Sell Ratio Basis: ${CONFIG.STRATEGY.SELL_RATIO_OF_ORIGINAL ? 'original' : 'remaining'}`);
+    console.log(`   Filter Rules: ${CONFIG.FILTER_RULES_PATH}`);
+    console.log(`   Score Model: ${CONFIG.SCORE_MODEL_PATH}`);
+    try {
+        for (const strategy of loadStrategies(CONFIG.STRATEGIES_PATH, CONFIG)) {
+            console.log(`   Strategy ${strategy.name}: ${strategy.solInvestmentAmount} SOL, max ${strategy.maxPositions} positions, stop loss ${strategy.params.INITIAL_STOP_LOSS}%`);
+        }
+    } catch {
+        console.log(`   Strategies: ❌ ${CONFIG.STRATEGIES_PATH}`);
+    }
+    console.log(`   Watchlist: ${CONFIG.WATCHLIST.CONFIRM_FRAMES} frames / ${CONFIG.WATCHLIST.CONFIRM_SECONDS}s`);
+    console.log(`   Feed Source: ${CONFIG.FEED.SOURCE}`);
+    console.log(`   Feed Recorder: ${CONFIG.RECORDER.ENABLED ? `✅ ${CONFIG.RECORDER.DIR}` : '❌'}`);
 }
 
-// 验证配置
-export function validateConfig(): boolean {
+/**
+ * 验证配置
+ * @param strategies 已加载的策略，不传时从 STRATEGIES_PATH 加载校验
+ */
+export function validateConfig(config: TradingConfig = CONFIG, strategies?: Strategy[]): boolean {
     const errors: string[] = [];
 
-    if (CONFIG.SOL_INVESTMENT_AMOUNT <= 0) {
+    if (config.TRADE_ENABLED && !config.SOLANA.WALLET_KEY) {
+        errors.push('PRIVATE_KEY is required when TRADE_ENABLED is true');
+    }
+
+    if (config.SOL_INVESTMENT_AMOUNT <= 0) {
         errors.push('SOL_INVESTMENT_AMOUNT must be greater than 0');
     }
 
-    if (CONFIG.RISK.MAX_POSITIONS <= 0) {
+    if (config.RISK.MAX_POSITIONS <= 0) {
         errors.push('MAX_POSITIONS must be greater than 0');
     }
 
-    if (CONFIG.STRATEGY.INITIAL_STOP_LOSS >= 0) {
-        errors.push('INITIAL_STOP_LOSS must be negative (e.g., -15)');
+    errors.push(...validateStrategyParams(config.STRATEGY));
+
+    try {
+        loadFilterRules(config.FILTER_RULES_PATH);
+    } catch (error) {
+        errors.push(`FILTER_RULES_PATH: ${(error as Error).message}`);
+    }
+
+    // 同时校验各策略用到的筛选规则和评分模型文件
+    if (!strategies) {
+        try {
+            loadStrategies(config.STRATEGIES_PATH, config);
+        } catch (error) {
+            errors.push((error as Error).message);
+        }
+    }
+
+    if (config.CONFIG_RELOAD_INTERVAL < 0) {
+        errors.push('CONFIG_RELOAD_INTERVAL must not be negative');
+    }
+
+    if (config.ORDER_SCHEDULER_INTERVAL <= 0) {
+        errors.push('ORDER_SCHEDULER_INTERVAL must be greater than 0');
+    }
+
+    if (config.RETRY.MAX_RETRIES < 0 || config.RETRY.STOP_LOSS_IMMEDIATE < 0) {
+        errors.push('ORDER_RETRY_MAX and ORDER_RETRY_STOP_LOSS_IMMEDIATE must not be negative');
+    }
+
+    if (config.RETRY.BASE_DELAY <= 0 || config.RETRY.MAX_DELAY < config.RETRY.BASE_DELAY) {
+        errors.push('ORDER_RETRY_MAX_DELAY must be >= ORDER_RETRY_BASE_DELAY > 0');
+    }
+
+    if (config.WATCHLIST.CONFIRM_FRAMES < 1 || config.WATCHLIST.CONFIRM_SECONDS < 0) {
+        errors.push('WATCHLIST_CONFIRM_FRAMES must be at least 1 and WATCHLIST_CONFIRM_SECONDS must not be negative');
+    }
+
+    if (config.WATCHLIST.MAX_HOLDER_DROP < 0 || config.WATCHLIST.MAX_VOLUME_DROP < 0 || config.WATCHLIST.EXPIRE_SECONDS <= config.WATCHLIST.CONFIRM_SECONDS) {
+        errors.push('WATCHLIST_MAX_HOLDER_DROP and WATCHLIST_MAX_VOLUME_DROP must not be negative, WATCHLIST_EXPIRE_SECONDS must be greater than WATCHLIST_CONFIRM_SECONDS');
+    }
+
+    if (config.NEAR_MISS.MAX_FAILED_RULES < 0 || config.NEAR_MISS.DIGEST_INTERVAL < 0 || config.NEAR_MISS.GOOD_MULTIPLIER <= 1) {
+        errors.push('NEAR_MISS_MAX_FAILED_RULES and NEAR_MISS_DIGEST_INTERVAL must not be negative, NEAR_MISS_GOOD_MULTIPLIER must be greater than 1');
+    }
+
+    if (config.SIMULATION.SLIPPAGE_BPS < 0 || config.SIMULATION.SWAP_FEE_BPS < 0 || config.SIMULATION.NETWORK_FEE_SOL < 0
+        || config.SIMULATION.PRICE_IMPACT_BPS_PER_SOL < 0 || config.SIMULATION.LATENCY_MS < 0) {
+        errors.push('SIM_SLIPPAGE_BPS, SIM_SWAP_FEE_BPS, SIM_NETWORK_FEE_SOL, SIM_PRICE_IMPACT_BPS_PER_SOL and SIM_LATENCY_MS must not be negative');
     }
 
-    if (CONFIG.STRATEGY.DOUBLE_PROFIT_THRESHOLD <= 0) {
-        errors.push('DOUBLE_PROFIT_THRESHOLD must be greater than 0');
+    if (config.PAPER_SOL_BALANCE < 0) {
+        errors.push('PAPER_SOL_BALANCE must not be negative');
     }
 
-    if (CONFIG.STRATEGY.DOUBLE_SELL_RATIO < 0 || CONFIG.STRATEGY.DOUBLE_SELL_RATIO > 100) {
-        errors.push('DOUBLE_SELL_RATIO must be between 0 and 100');
+    if (config.FEED.SOURCE !== 'ws' && config.FEED.SOURCE !== 'browser') {
+        errors.push('FEED_SOURCE must be "ws" or "browser"');
     }
 
-    if (CONFIG.STRATEGY.TARGET_MC_1_RATIO < 0 || CONFIG.STRATEGY.TARGET_MC_1_RATIO > 100) {
-        errors.push('TARGET_MC_1_RATIO must be between 0 and 100');
+    if (config.FEED.HEARTBEAT_INTERVAL <= 0) {
+        errors.push('FEED_HEARTBEAT_INTERVAL must be greater than 0');
     }
 
-    if (CONFIG.STRATEGY.TARGET_MC_2_RATIO < 0 || CONFIG.STRATEGY.TARGET_MC_2_RATIO > 100) {
-        errors.push('TARGET_MC_2_RATIO must be between 0 and 100');
+    if (config.FEED.RECONNECT_BASE_DELAY <= 0 || config.FEED.RECONNECT_MAX_DELAY < config.FEED.RECONNECT_BASE_DELAY) {
+        errors.push('FEED_RECONNECT_MAX_DELAY must be >= FEED_RECONNECT_BASE_DELAY > 0');
     }
 
-    if (CONFIG.STRATEGY.LFG_SELL_RATIO < 0 || CONFIG.STRATEGY.LFG_SELL_RATIO > 100) {
-        errors.push('LFG_SELL_RATIO must be between 0 and 100');
+    if (config.FEED.STALE_TIMEOUT <= config.FEED.WATCHDOG_INTERVAL) {
+        errors.push('FEED_STALE_TIMEOUT must be greater than FEED_WATCHDOG_INTERVAL');
     }
 
     if (errors.length > 0) {
@@ -4,9 +4,17 @@ import bs58 from "bs58";
 // import * as dotenv from "dotenv";
 import { CONFIG } from "./config";
 // dotenv.config();
-export const wallet = new Wallet(
-  Keypair.fromSecretKey(bs58.decode(CONFIG.SOLANA.WALLET_KEY))
-);
+let wallet: Wallet | null = null;
+// 首次签名时才读取私钥，回放/模拟交易不需要配置
+export function getWallet(): Wallet {
+  if (!wallet) {
+    if (!CONFIG.SOLANA.WALLET_KEY) {
+      throw new Error("PRIVATE_KEY is not configured");
+    }
+    wallet = new Wallet(Keypair.fromSecretKey(bs58.decode(CONFIG.SOLANA.WALLET_KEY)));
+  }
+  return wallet;
+}
 export const connection = new Connection(
   CONFIG.SOLANA.RPC
 );
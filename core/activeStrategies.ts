@@ -0,0 +1,33 @@
+import { Strategy } from '../types';
+import { CONFIG } from '../config';
+import { loadStrategies } from './strategies';
+
+// 当前生效的策略，首次使用时从 CONFIG.STRATEGIES_PATH 加载
+let activeStrategies: Strategy[] | null = null;
+
+export function getStrategies(): Strategy[] {
+    if (!activeStrategies) {
+        activeStrategies = loadStrategies(CONFIG.STRATEGIES_PATH, CONFIG);
+    }
+    return activeStrategies;
+}
+
+export function setStrategies(strategies: Strategy[]): void {
+    activeStrategies = strategies;
+}
+
+/**
+ * 按名称选择策略，名称不存在时抛出
+ */
+export function selectStrategies(names?: string[]): Strategy[] {
+    const strategies = getStrategies();
+    if (!names?.length) return strategies;
+
+    return names.map(name => {
+        const strategy = strategies.find(item => item.name === name);
+        if (!strategy) {
+            throw new Error(`Unknown strategy "${name}", available: ${strategies.map(item => item.name).join(', ')}`);
+        }
+        return strategy;
+    });
+}
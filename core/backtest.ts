@@ -0,0 +1,292 @@
+import { WebSocketHandler } from './websocket';
+import { FeedReplayer, ReplaySummary } from './replay';
+import { SimulatedExecutor } from '../trading/simulatedExecutor';
+import { CONFIG } from '../config';
+import { setTelegramEnabled } from '../services/telegram/message';
+import { useRealTime } from '../utils/clock';
+import { formatDuration } from '../utils/format';
+import { getStrategies } from './activeStrategies';
+import { applyFilterOverrides } from './filterRules';
+import { FillModel, OrderType, Position, RecordedFrame, SimulatedFill, Strategy, StrategyParams } from '../types';
+
+export interface BacktestOptions {
+    files: string[];
+    frames?: RecordedFrame[];
+    from?: number;
+    to?: number;
+    fillModel: FillModel;
+    strategies?: Strategy[];                // 默认为 CONFIG.STRATEGIES_PATH 中的全部策略
+    strategy?: Partial<StrategyParams>;     // 覆盖每个策略的出场参数
+    filter?: Record<string, number>;        // 按规则 id 覆盖每个策略筛选条件的数值
+}
+
+export interface ExitTypeStats {
+    type: OrderType;
+    count: number;
+    solReceived: number;
+    realizedPnl: number;
+}
+
+export interface BacktestReport {
+    frames: number;
+    startTime: number | null;
+    endTime: number | null;
+    signals: number;                 // 开仓次数
+    closedPositions: number;
+    openPositions: number;
+    wins: number;
+    winRate: number;                 // 已平仓胜率 (%)
+    solSpent: number;
+    solReceived: number;
+    fees: number;
+    realizedPnl: number;             // 已实现盈亏 (SOL)
+    unrealizedPnl: number;           // 未平仓按最后市值估算 (SOL)
+    averageHoldMs: number;
+    maxDrawdown: number;             // 已实现盈亏曲线的最大回撤 (SOL)
+    exits: ExitTypeStats[];
+    strategies: BacktestGroupStats[];    // 按策略
+    scoreBuckets: BacktestGroupStats[];  // 按开仓评分 (每 10 分一组)
+}
+
+export interface BacktestGroupStats {
+    group: string;
+    signals: number;
+    closedPositions: number;
+    winRate: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+}
+
+interface TradeState {
+    strategy: string;
+    score?: number;
+    entryTime: number;
+    solSpent: number;
+    tokensBought: number;
+    tokensSold: number;
+    solReceived: number;
+    fees: number;
+    realizedPnl: number;
+    lastExitTime: number | null;
+}
+
+/**
+ * 用录制数据回测
+ * 走真实的 filterToken / 默认订单 / 订单触发逻辑，成交由 SimulatedExecutor 按滑点和手续费模拟
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+    CONFIG.TRADE_ENABLED = false;
+    setTelegramEnabled(false);
+
+    const strategies = applyStrategyOverrides(options.strategies || getStrategies(), options.strategy, options.filter);
+    const executor = new SimulatedExecutor(options.fillModel);
+    const handler = new WebSocketHandler(':memory:', executor, strategies);
+    const replayer = new FeedReplayer(handler, {
+        files: options.files,
+        frames: options.frames,
+        speed: 0,
+        from: options.from,
+        to: options.to
+    });
+
+    try {
+        const summary = await replayer.run();
+        return buildBacktestReport(executor.getFills(), handler.getActivePositions(), summary, options.fillModel);
+    } finally {
+        handler.close();
+        useRealTime();
+    }
+}
+
+/**
+ * 复制策略并覆盖出场参数 / 筛选条件的数值
+ */
+export function applyStrategyOverrides(
+    strategies: Strategy[],
+    params: Partial<StrategyParams> = {},
+    filter?: Record<string, number>
+): Strategy[] {
+    return strategies.map(strategy => ({
+        ...strategy,
+        params: { ...strategy.params, ...params },
+        rules: filter ? applyFilterOverrides(strategy.rules, filter) : strategy.rules
+    }));
+}
+
+/**
+ * 根据成交记录生成报告
+ */
+export function buildBacktestReport(
+    fills: SimulatedFill[],
+    openPositions: Position[],
+    summary: ReplaySummary,
+    model: FillModel
+): BacktestReport {
+    const trades: TradeState[] = [];
+    const current = new Map<string, TradeState>();
+    const exits = new Map<OrderType, ExitTypeStats>();
+    const pnlEvents: { time: number; pnl: number }[] = [];
+
+    for (const fill of fills) {
+        if (fill.type === OrderType.MARKET_BUY) {
+            // 同一代币再次开仓视为新的一笔交易
+            const trade: TradeState = {
+                strategy: fill.strategy,
+                score: fill.score,
+                entryTime: fill.time,
+                solSpent: fill.solAmount,
+                tokensBought: fill.tokenAmount,
+                tokensSold: 0,
+                solReceived: 0,
+                fees: fill.fee,
+                realizedPnl: 0,
+                lastExitTime: null
+            };
+            trades.push(trade);
+            current.set(fill.positionId, trade);
+            continue;
+        }
+
+        const trade = current.get(fill.positionId);
+        if (!trade) continue;
+
+        const costBasis = fill.tokenAmount * trade.solSpent / trade.tokensBought;
+        const pnl = fill.solAmount - costBasis;
+
+        trade.tokensSold += fill.tokenAmount;
+        trade.solReceived += fill.solAmount;
+        trade.fees += fill.fee;
+        trade.realizedPnl += pnl;
+        trade.lastExitTime = fill.time;
+        pnlEvents.push({ time: fill.time, pnl });
+
+        const stats = exits.get(fill.type) || { type: fill.type, count: 0, solReceived: 0, realizedPnl: 0 };
+        stats.count++;
+        stats.solReceived += fill.solAmount;
+        stats.realizedPnl += pnl;
+        exits.set(fill.type, stats);
+    }
+
+    // 未平仓部分按最后市值估算
+    const openTrades = new Map<TradeState, number>();
+    for (const position of openPositions) {
+        const trade = current.get(position.id);
+        if (!trade) continue;
+        const remaining = trade.tokensBought - trade.tokensSold;
+        const value = remaining * position.currentPrice
+            * (1 - model.SLIPPAGE_BPS / 10000)
+            * (1 - model.SWAP_FEE_BPS / 10000);
+        openTrades.set(trade, value - remaining * trade.solSpent / trade.tokensBought);
+    }
+    const unrealizedPnl = [...openTrades.values()].reduce((sum, pnl) => sum + pnl, 0);
+
+    const closed = trades.filter(trade => !openTrades.has(trade) && trade.lastExitTime !== null);
+    const wins = closed.filter(trade => trade.solReceived > trade.solSpent).length;
+    const totalHold = closed.reduce((sum, trade) => sum + (trade.lastExitTime! - trade.entryTime), 0);
+
+    // 已实现盈亏曲线的最大回撤
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const event of pnlEvents.sort((a, b) => a.time - b.time)) {
+        equity += event.pnl;
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+
+    return {
+        frames: summary.frames,
+        startTime: summary.startTime,
+        endTime: summary.endTime,
+        signals: trades.length,
+        closedPositions: closed.length,
+        openPositions: openPositions.length,
+        wins,
+        winRate: closed.length > 0 ? wins / closed.length * 100 : 0,
+        solSpent: trades.reduce((sum, trade) => sum + trade.solSpent, 0),
+        solReceived: trades.reduce((sum, trade) => sum + trade.solReceived, 0),
+        fees: trades.reduce((sum, trade) => sum + trade.fees, 0),
+        realizedPnl: pnlEvents.reduce((sum, event) => sum + event.pnl, 0),
+        unrealizedPnl,
+        averageHoldMs: closed.length > 0 ? totalHold / closed.length : 0,
+        maxDrawdown,
+        exits: [...exits.values()],
+        strategies: summarizeGroups(trades, openTrades, trade => trade.strategy),
+        scoreBuckets: summarizeGroups(
+            trades.filter(trade => trade.score !== undefined),
+            openTrades,
+            trade => {
+                const bucket = Math.min(90, Math.floor(trade.score! / 10) * 10);
+                return `${bucket}-${bucket + 10}`;
+            }
+        ).sort((a, b) => parseFloat(a.group) - parseFloat(b.group))
+    };
+}
+
+/**
+ * 按分组汇总
+ */
+function summarizeGroups(
+    trades: TradeState[],
+    openTrades: Map<TradeState, number>,
+    groupOf: (trade: TradeState) => string
+): BacktestGroupStats[] {
+    const stats = new Map<string, BacktestGroupStats & { wins: number }>();
+    for (const trade of trades) {
+        const group = groupOf(trade);
+        const entry = stats.get(group)
+            || { group, signals: 0, closedPositions: 0, winRate: 0, realizedPnl: 0, unrealizedPnl: 0, wins: 0 };
+        entry.signals++;
+        entry.realizedPnl += trade.realizedPnl;
+        if (openTrades.has(trade)) {
+            entry.unrealizedPnl += openTrades.get(trade)!;
+        } else if (trade.lastExitTime !== null) {
+            entry.closedPositions++;
+            if (trade.solReceived > trade.solSpent) entry.wins++;
+        }
+        stats.set(group, entry);
+    }
+
+    return [...stats.values()].map(({ wins, ...entry }) => ({
+        ...entry,
+        winRate: entry.closedPositions > 0 ? wins / entry.closedPositions * 100 : 0
+    }));
+}
+
+/**
+ * 格式化报告
+ */
+export function formatBacktestReport(report: BacktestReport): string {
+    const sol = (value: number) => `${value >= 0 ? '' : '-'}${Math.abs(value).toFixed(4)} SOL`;
+    const lines = [
+        '📊 Backtest report',
+        `   Frames: ${report.frames}`
+    ];
+    if (report.startTime !== null && report.endTime !== null) {
+        lines.push(`   Window: ${new Date(report.startTime).toISOString()} → ${new Date(report.endTime).toISOString()}`);
+    }
+    lines.push(
+        `   Signals: ${report.signals} (closed ${report.closedPositions}, open ${report.openPositions})`,
+        `   Win rate: ${report.winRate.toFixed(2)}% (${report.wins}/${report.closedPositions})`,
+        `   SOL spent: ${sol(report.solSpent)}`,
+        `   SOL received: ${sol(report.solReceived)}`,
+        `   Fees: ${sol(report.fees)}`,
+        `   Realized PnL: ${sol(report.realizedPnl)}`,
+        `   Unrealized PnL: ${sol(report.unrealizedPnl)}`,
+        `   Avg hold: ${formatDuration(report.averageHoldMs)}`,
+        `   Max drawdown: ${sol(report.maxDrawdown)}`,
+        '   Exits:'
+    );
+    for (const exit of report.exits) {
+        lines.push(`     ${exit.type.padEnd(12)} ${String(exit.count).padStart(5)} fills  received ${sol(exit.solReceived)}  pnl ${sol(exit.realizedPnl)}`);
+    }
+    const groupLine = (item: BacktestGroupStats) =>
+        `     ${item.group.padEnd(12)} ${String(item.signals).padStart(5)} signals  win ${item.winRate.toFixed(2)}%  realized ${sol(item.realizedPnl)}  unrealized ${sol(item.unrealizedPnl)}`;
+    if (report.strategies.length > 1) {
+        lines.push('   Strategies:', ...report.strategies.map(groupLine));
+    }
+    if (report.scoreBuckets.length > 0) {
+        lines.push('   Score buckets:', ...report.scoreBuckets.map(groupLine));
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { CONFIG, buildConfig, validateConfig } from '../config';
+import { loadStrategies } from './strategies';
+import { getStrategies, setStrategies } from './activeStrategies';
+import { WebSocketHandler } from './websocket';
+import { Strategy } from '../types';
+import logger from '../services/logger';
+
+// 只有重启才会生效的配置项
+const RESTART_REQUIRED = [
+    'TRADE_ENABLED', 'SOLANA', 'FEED', 'RECORDER', 'LOGGER_FILE_PATH',
+    'CONFIG_RELOAD_INTERVAL', 'ORDER_SCHEDULER_INTERVAL', 'NEAR_MISS.DIGEST_INTERVAL'
+];
+
+// 日志中隐藏的配置项
+const SECRET_KEYS = ['SOLANA.WALLET_KEY'];
+
+export interface ConfigChange {
+    key: string;
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * 展开为 "A.B" → 值
+ */
+function flatten(value: unknown, prefix: string = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            flatten(child, prefix ? `${prefix}.${key}` : key, result);
+        }
+    } else {
+        result[prefix] = value;
+    }
+    return result;
+}
+
+/**
+ * 比较两份配置
+ */
+export function diffConfig(previous: object, next: object): ConfigChange[] {
+    const before = flatten(previous);
+    const after = flatten(next);
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    return [...keys]
+        .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => SECRET_KEYS.includes(key)
+            ? { key, from: '***', to: '***' }
+            : { key, from: before[key], to: after[key] });
+}
+
+/**
+ * 比较两组策略，筛选规则只标记是否变化
+ */
+export function diffStrategies(previous: Strategy[], next: Strategy[]): ConfigChange[] {
+    const changes: ConfigChange[] = [];
+    const toComparable = (strategy: Strategy) => ({ ...strategy, rules: JSON.stringify(strategy.rules) });
+
+    for (const strategy of next) {
+        const old = previous.find(item => item.name === strategy.name);
+        if (!old) {
+            changes.push({ key: strategy.name, from: undefined, to: 'added' });
+            continue;
+        }
+        for (const change of diffConfig(toComparable(old), toComparable(strategy))) {
+            changes.push(change.key === 'rules'
+                ? { key: `${strategy.name}.rules`, from: old.rulesPath, to: `${strategy.rulesPath} (changed)` }
+                : { ...change, key: `${strategy.name}.${change.key}` });
+        }
+    }
+    for (const strategy of previous) {
+        if (!next.some(item => item.name === strategy.name)) {
+            changes.push({ key: strategy.name, from: 'active', to: 'removed' });
+        }
+    }
+    return changes;
+}
+
+function isRestartRequired(key: string): boolean {
+    return RESTART_REQUIRED.some(prefix => key === prefix || key.startsWith(`${prefix}.`));
+}
+
+function setPath(target: any, key: string, value: unknown): void {
+    const parts = key.split('.');
+    const last = parts.pop()!;
+    for (const part of parts) {
+        target = target[part];
+    }
+    target[last] = value;
+}
+
+/**
+ * 配置热重载
+ * 监听 .env / 策略文件 / 筛选规则文件的变化以及 SIGHUP，校验通过后原地更新 CONFIG 并整体替换生效的策略；
+ * 校验失败时保留当前配置。现有仓位的待执行订单只在策略设置了 MIGRATE_PENDING_ORDERS 时迁移
+ */
+export class ConfigReloader {
+    private handler: WebSocketHandler;
+    private envPath: string;
+    private watched = new Set<string>();
+    private debounceTimer: NodeJS.Timeout | null = null;
+    private onSignal = () => this.reload('SIGHUP');
+
+    constructor(handler: WebSocketHandler, envPath: string = '.env') {
+        this.handler = handler;
+        this.envPath = envPath;
+    }
+
+    start(): void {
+        process.on('SIGHUP', this.onSignal);
+        this.updateWatchedFiles();
+    }
+
+    stop(): void {
+        process.off('SIGHUP', this.onSignal);
+        for (const file of this.watched) {
+            fs.unwatchFile(file);
+        }
+        this.watched.clear();
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+    }
+
+    /**
+     * 重新加载配置，返回是否生效
+     */
+    reload(reason: string): boolean {
+        logger.info(`🔄 Reloading configuration (${reason})...`);
+        // 由信号和文件监听触发，异常不能抛出；文件可能还没写完，失败时保留当前配置
+        try {
+            return this.apply();
+        } catch (error) {
+            logger.error(`❌ Config reload failed, keeping current configuration: ${(error as Error).message}`);
+            return false;
+        }
+    }
+
+    private apply(): boolean {
+        const next = buildConfig({ ...process.env, ...this.readEnvFile() });
+        // 交易开关不来自环境变量 (回放/回测会关闭)
+        next.TRADE_ENABLED = CONFIG.TRADE_ENABLED;
+
+        // 只读取一次策略文件，校验通过后生效的就是这一份
+        const strategies = loadStrategies(next.STRATEGIES_PATH, next);
+        if (!validateConfig(next, strategies)) {
+            logger.error('❌ Config reload rejected, keeping current configuration');
+            return false;
+        }
+
+        const configChanges = diffConfig(CONFIG, next);
+        const previous = getStrategies();
+        const strategyChanges = diffStrategies(previous, strategies);
+        if (configChanges.length === 0 && strategyChanges.length === 0) {
+            logger.info('🔄 Configuration unchanged');
+            return true;
+        }
+
+        // 同步执行，处理行情的异步任务不会看到一半新一半旧的配置
+        for (const change of configChanges) {
+            if (isRestartRequired(change.key)) {
+                logger.warn(`⚠️ ${change.key} changed, restart required to apply`);
+                continue;
+            }
+            setPath(CONFIG, change.key, change.to);
+            logger.info(`   ${change.key}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`);
+        }
+        setStrategies(strategies);
+        for (const change of strategyChanges) {
+            logger.info(`   strategy ${change.key}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`);
+        }
+
+        for (const strategy of strategies) {
+            const old = previous.find(item => item.name === strategy.name);
+            if (!old || !strategy.migratePendingOrders) continue;
+            if (JSON.stringify(old.params) === JSON.stringify(strategy.params)
+                && JSON.stringify(old.orders) === JSON.stringify(strategy.orders)) continue;
+            this.handler.migratePendingOrders(old, strategy);
+        }
+
+        this.updateWatchedFiles();
+        logger.info(`✅ Configuration reloaded (${strategies.map(s => s.name).join(', ')})`);
+        return true;
+    }
+
+    private readEnvFile(): Record<string, string> {
+        if (!fs.existsSync(this.envPath)) return {};
+        return dotenv.parse(fs.readFileSync(this.envPath));
+    }
+
+    /**
+     * 监听 .env、策略文件和所有策略用到的筛选规则 / 评分模型文件
+     */
+    private updateWatchedFiles(): void {
+        if (CONFIG.CONFIG_RELOAD_INTERVAL <= 0) return;
+
+        const files = new Set([
+            this.envPath,
+            CONFIG.STRATEGIES_PATH,
+            CONFIG.FILTER_RULES_PATH,
+            CONFIG.SCORE_MODEL_PATH,
+            ...getStrategies().flatMap(strategy => [strategy.rulesPath, strategy.scoreModelPath])
+        ]);
+
+        for (const file of this.watched) {
+            if (!files.has(file)) fs.unwatchFile(file);
+        }
+        for (const file of files) {
+            if (this.watched.has(file)) continue;
+            fs.watchFile(file, { interval: CONFIG.CONFIG_RELOAD_INTERVAL }, (current, previous) => {
+                if (current.mtimeMs !== previous.mtimeMs) this.scheduleReload(file);
+            });
+        }
+        this.watched = files;
+    }
+
+    /**
+     * 编辑器保存时可能连续写入多次，合并为一次重载
+     */
+    private scheduleReload(file: string): void {
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.reload(`${file} changed`);
+        }, 500);
+    }
+}
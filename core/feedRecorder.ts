@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import readline from 'readline';
+import { RecordedFrame, WSMessage } from '../types';
+import logger from '../services/logger';
+
+/**
+ * 原始行情录制器
+ * 每条消息写成一行 JSON，按天 (UTC) 轮换为 feed-YYYY-MM-DD.jsonl.gz
+ * 以追加方式写入，重启后会在同一文件追加新的 gzip 段，gunzip 可直接连续解压
+ */
+export class FeedRecorder {
+    private dir: string;
+    private currentDate: string | null = null;
+    private gzip: zlib.Gzip | null = null;
+    private file: fs.WriteStream | null = null;
+    private flushTimer: NodeJS.Timeout;
+    private recordedCount = 0;
+
+    constructor(dir: string, flushInterval: number = 10000) {
+        this.dir = dir;
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        // 定期刷盘，进程崩溃时最多丢失一个间隔的数据
+        this.flushTimer = setInterval(() => this.gzip?.flush(), flushInterval);
+        logger.info(`🎙️ Feed recorder writing to ${dir}`);
+    }
+
+    /**
+     * 记录一条消息
+     */
+    record(message: WSMessage, receivedAt: number = Date.now()): void {
+        const stream = this.getStream(receivedAt);
+        const frame: RecordedFrame = { receivedAt, message };
+        stream.write(JSON.stringify(frame) + '\n');
+        this.recordedCount++;
+    }
+
+    getRecordedCount(): number {
+        return this.recordedCount;
+    }
+
+    /**
+     * 关闭录制器，等待数据写完
+     */
+    async close(): Promise<void> {
+        clearInterval(this.flushTimer);
+        await this.closeStream();
+        logger.info(`🎙️ Feed recorder closed (${this.recordedCount} frames recorded)`);
+    }
+
+    /**
+     * 获取当天的写入流，跨天时轮换
+     */
+    private getStream(timestamp: number): zlib.Gzip {
+        const date = new Date(timestamp).toISOString().slice(0, 10);
+        if (this.gzip && date === this.currentDate) return this.gzip;
+
+        if (this.gzip) {
+            this.closeStream().catch(error => logger.error('Failed to close feed recording:', error));
+        }
+
+        const filePath = path.join(this.dir, `feed-${date}.jsonl.gz`);
+        const gzip = zlib.createGzip();
+        const file = fs.createWriteStream(filePath, { flags: 'a' });
+        file.on('error', error => logger.error(`Feed recording write error (${filePath}):`, error));
+        gzip.pipe(file);
+
+        this.gzip = gzip;
+        this.file = file;
+        this.currentDate = date;
+        logger.info(`🎙️ Recording feed to ${filePath}`);
+        return gzip;
+    }
+
+    private closeStream(): Promise<void> {
+        const gzip = this.gzip;
+        const file = this.file;
+        this.gzip = null;
+        this.file = null;
+        this.currentDate = null;
+        if (!gzip || !file) return Promise.resolve();
+
+        return new Promise(resolve => {
+            file.once('close', () => resolve());
+            gzip.end();
+        });
+    }
+}
+
+/**
+ * 列出目录下的录制文件（按日期排序），可按日期范围过滤 (YYYY-MM-DD，含边界)
+ */
+export function listRecordingFiles(dir: string, fromDate?: string, toDate?: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(name => /^feed-\d{4}-\d{2}-\d{2}\.jsonl(\.gz)?$/.test(name))
+        .filter(name => {
+            const date = name.slice(5, 15);
+            return (!fromDate || date >= fromDate) && (!toDate || date <= toDate);
+        })
+        .sort()
+        .map(name => path.join(dir, name));
+}
+
+/**
+ * 逐行读取录制文件（支持 .gz 和未压缩的 .jsonl），跳过损坏的行
+ */
+export async function* readRecordedFrames(filePath: string): AsyncGenerator<RecordedFrame> {
+    const raw = fs.createReadStream(filePath);
+    const gunzip = filePath.endsWith('.gz') ? zlib.createGunzip() : null;
+    const lines = readline.createInterface({ input: gunzip ? raw.pipe(gunzip) : raw, crlfDelay: Infinity });
+
+    // 进程崩溃时最后一段 gzip 可能不完整，读到这里为止
+    gunzip?.on('error', error => {
+        logger.warn(`Recording ${filePath} ends unexpectedly: ${error.message}`);
+        lines.close();
+    });
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+        lineNumber++;
+        if (!line.trim()) continue;
+        try {
+            yield JSON.parse(line) as RecordedFrame;
+        } catch (error) {
+            logger.warn(`Skipping malformed frame at ${filePath}:${lineNumber}`);
+        }
+    }
+}
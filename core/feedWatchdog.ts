@@ -0,0 +1,87 @@
+import { FeedConfig, FeedSource, WSMessage } from '../types';
+import { sendToTelegram } from '../services/telegram/message';
+import { formatDuration } from '../utils/format';
+import logger from '../services/logger';
+
+/**
+ * 数据源看门狗
+ * 跟踪最后一帧 new_pair_update 的时间，断开或断流时重启数据源，并在中断/恢复时发送告警
+ */
+export class FeedWatchdog {
+    private feed: FeedSource;
+    private config: FeedConfig;
+    private timer: NodeJS.Timeout | null = null;
+    private lastFrameAt = 0;
+    private lastRestartAt = 0;
+    private outageStartedAt: number | null = null;
+    private restarting = false;
+
+    constructor(feed: FeedSource, config: FeedConfig) {
+        this.feed = feed;
+        this.config = config;
+    }
+
+    start(): void {
+        // 启动宽限期：从启动时刻开始计时
+        this.lastFrameAt = Date.now();
+        this.timer = setInterval(() => {
+            this.check().catch(error => logger.error('Feed watchdog check failed:', error));
+        }, this.config.WATCHDOG_INTERVAL);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * 收到消息时调用
+     */
+    onMessage(message: WSMessage): void {
+        if (message.channel !== 'new_pair_update') return;
+
+        this.lastFrameAt = Date.now();
+        if (this.outageStartedAt !== null) {
+            const duration = this.lastFrameAt - this.outageStartedAt;
+            this.outageStartedAt = null;
+            logger.info(`✅ Feed recovered after ${formatDuration(duration)}`);
+            sendToTelegram(`✅ 数据源已恢复\nFeed: ${this.feed.name}\n中断时长: ${formatDuration(duration)}`, "Alert");
+        }
+    }
+
+    /**
+     * 距离最后一帧的时间 (ms)
+     */
+    getSilenceDuration(): number {
+        return Date.now() - this.lastFrameAt;
+    }
+
+    private async check(): Promise<void> {
+        const silence = this.getSilenceDuration();
+        const connected = this.feed.isConnected();
+        if (connected && silence < this.config.STALE_TIMEOUT) return;
+
+        const reason = connected ? `no new_pair_update for ${formatDuration(silence)}` : 'socket closed';
+
+        if (this.outageStartedAt === null) {
+            this.outageStartedAt = connected ? this.lastFrameAt : Date.now();
+            logger.warn(`⚠️ Feed outage detected: ${reason}`);
+            sendToTelegram(`⚠️ 数据源中断\nFeed: ${this.feed.name}\n原因: ${reason}\n持仓订单暂停管理，正在重连...`, "Alert");
+        }
+
+        if (this.restarting || Date.now() - this.lastRestartAt < this.config.RESTART_COOLDOWN) return;
+
+        this.restarting = true;
+        this.lastRestartAt = Date.now();
+        try {
+            logger.info(`🔄 Restarting feed ${this.feed.name} (${reason})`);
+            await this.feed.restart();
+        } catch (error) {
+            logger.error(`Feed restart failed: ${(error as Error).message}`);
+        } finally {
+            this.restarting = false;
+        }
+    }
+}
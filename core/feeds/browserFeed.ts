@@ -0,0 +1,111 @@
+import puppeteer from "puppeteer-extra";
+import StealthPlugin from "puppeteer-extra-plugin-stealth";
+import type { Browser, Page } from "puppeteer";
+import { FeedConfig, FeedMessageListener, FeedSource, WSMessage } from '../../types';
+import logger from "../../services/logger";
+
+puppeteer.use(StealthPlugin());
+
+/**
+ * 通过无头浏览器打开 gmgn.ai 并抓取 WebSocket 帧的数据源
+ */
+export class BrowserFeed implements FeedSource {
+    readonly name = 'browser';
+    private config: FeedConfig;
+    private browser: Browser | null = null;
+    private page: Page | null = null;
+    private onMessage: FeedMessageListener | null = null;
+    private openSockets = new Set<string>();
+
+    constructor(config: FeedConfig) {
+        this.config = config;
+    }
+
+    async start(onMessage: FeedMessageListener): Promise<void> {
+        this.onMessage = onMessage;
+        this.browser = await puppeteer.launch({
+            headless: true,
+            executablePath: this.config.BROWSER_PATH,
+            args: [
+                "--no-sandbox",
+                "--disable-setuid-sandbox",
+                "--disable-dev-shm-usage",
+                "--disable-web-security"
+            ]
+        });
+
+        const page = await this.browser.newPage();
+        this.page = page;
+        await page.setUserAgent(
+            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36"
+        );
+
+        const client = await page.target().createCDPSession();
+        await client.send("Network.enable");
+        await client.send("Runtime.enable");
+        client.on("Network.webSocketCreated", (event) => {
+            logger.info(`\n🚀 WebSockt created: ${event.url} ${event.requestId}`);
+            this.openSockets.add(event.requestId);
+        });
+        // 监听WebSocket
+        client.on("Network.webSocketFrameReceived", async (event) => {
+            let data: WSMessage;
+            try {
+                data = JSON.parse(event.response.payloadData) as WSMessage;
+            } catch (error) {
+                // 忽略非JSON消息
+                return;
+            }
+            try {
+                await onMessage(data);
+            } catch (error) {
+                logger.error('Error handling feed message:', error);
+            }
+        });
+
+        client.on("Network.webSocketClosed", (event) => {
+            logger.warn('WebSocket disconnected');
+            this.openSockets.delete(event.requestId);
+        });
+
+        // 连接GMGN
+        logger.info('Connecting to GMGN...');
+        await page.goto("https://gmgn.ai", {
+            waitUntil: "networkidle0",
+            timeout: 60000
+        });
+
+        await page.waitForTimeout(5000);
+        logger.info('✅ Connected to GMGN');
+    }
+
+    async stop(): Promise<void> {
+        this.openSockets.clear();
+        this.page = null;
+        if (this.browser) {
+            await this.browser.close();
+            this.browser = null;
+        }
+    }
+
+    /**
+     * 重新加载页面，失败则重启浏览器
+     */
+    async restart(): Promise<void> {
+        if (!this.onMessage) return;
+        try {
+            if (!this.page) throw new Error('Page not available');
+            this.openSockets.clear();
+            await this.page.reload({ waitUntil: "networkidle0", timeout: 60000 });
+            logger.info('🔄 GMGN page reloaded');
+        } catch (error) {
+            logger.warn(`Page reload failed, relaunching browser: ${(error as Error).message}`);
+            await this.stop().catch(() => undefined);
+            await this.start(this.onMessage);
+        }
+    }
+
+    isConnected(): boolean {
+        return this.openSockets.size > 0;
+    }
+}
@@ -0,0 +1,188 @@
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { FeedConfig, FeedMessageListener, FeedSource, WSMessage } from '../../types';
+import logger from '../../services/logger';
+
+/**
+ * 直连 GMGN WebSocket 的数据源
+ */
+export class GmgnSocketFeed implements FeedSource {
+    readonly name = 'gmgn-ws';
+    private config: FeedConfig;
+    private socket: WebSocket | null = null;
+    private onMessage: FeedMessageListener | null = null;
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempts = 0;
+    private awaitingPong = false;
+    private stopped = true;
+
+    constructor(config: FeedConfig) {
+        this.config = config;
+    }
+
+    async start(onMessage: FeedMessageListener): Promise<void> {
+        this.onMessage = onMessage;
+        this.stopped = false;
+        this.connect();
+    }
+
+    async stop(): Promise<void> {
+        this.stopped = true;
+        this.clearTimers();
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.terminate();
+            this.socket = null;
+        }
+        logger.info('GMGN socket feed stopped');
+    }
+
+    /**
+     * 立即重连（不等待退避），退避次数保留到收到行情后才清零
+     */
+    async restart(): Promise<void> {
+        if (this.stopped) return;
+        this.clearTimers();
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.terminate();
+            this.socket = null;
+        }
+        this.connect();
+    }
+
+    isConnected(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * 建立连接
+     */
+    private connect(): void {
+        const url = `${this.config.WS_URL}?uuid=${uuidv4()}&app_lang=en-US&os=web`;
+        logger.info(`Connecting to ${this.config.WS_URL}...`);
+
+        const socket = new WebSocket(url, {
+            agent: this.createProxyAgent(),
+            headers: {
+                'Origin': 'https://gmgn.ai',
+                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
+            }
+        });
+        this.socket = socket;
+
+        socket.on('open', () => {
+            logger.info('✅ Connected to GMGN');
+            this.subscribe();
+            this.startHeartbeat();
+        });
+
+        socket.on('message', async (raw) => {
+            let data: WSMessage;
+            try {
+                data = JSON.parse(raw.toString()) as WSMessage;
+            } catch (error) {
+                // 忽略非JSON消息
+                return;
+            }
+            // 收到行情才算连接正常，连上即断开的情况继续退避
+            if (data.channel === 'new_pair_update') this.reconnectAttempts = 0;
+            try {
+                await this.onMessage?.(data);
+            } catch (error) {
+                logger.error('Error handling feed message:', error);
+            }
+        });
+
+        socket.on('pong', () => {
+            this.awaitingPong = false;
+        });
+
+        socket.on('error', (error) => {
+            logger.error(`GMGN socket error: ${error.message}`);
+        });
+
+        socket.on('close', (code, reason) => {
+            logger.warn(`WebSocket disconnected (code ${code}${reason.length ? `, ${reason.toString()}` : ''})`);
+            this.clearTimers();
+            this.socket = null;
+            this.scheduleReconnect();
+        });
+    }
+
+    /**
+     * 订阅新币频道
+     */
+    private subscribe(): void {
+        this.send({
+            action: 'subscribe',
+            channel: 'new_pair_update',
+            id: uuidv4().replace(/-/g, '').slice(0, 16),
+            data: [{ chain: this.config.CHAIN }]
+        });
+        logger.info(`📡 Subscribed to new_pair_update (${this.config.CHAIN})`);
+    }
+
+    /**
+     * 心跳：上一个ping没有收到pong则认为连接已死
+     */
+    private startHeartbeat(): void {
+        this.awaitingPong = false;
+        this.heartbeatTimer = setInterval(() => {
+            if (!this.socket) return;
+            if (this.awaitingPong) {
+                logger.warn('Heartbeat timeout, terminating socket');
+                this.socket.terminate();
+                return;
+            }
+            this.awaitingPong = true;
+            this.socket.ping();
+        }, this.config.HEARTBEAT_INTERVAL);
+    }
+
+    /**
+     * 指数退避重连
+     */
+    private scheduleReconnect(): void {
+        if (this.stopped || this.reconnectTimer) return;
+
+        const delay = Math.min(
+            this.config.RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts),
+            this.config.RECONNECT_MAX_DELAY
+        );
+        const jitter = Math.floor(Math.random() * delay * 0.2);
+        this.reconnectAttempts++;
+
+        logger.info(`Reconnecting in ${delay + jitter}ms (attempt ${this.reconnectAttempts})`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (!this.stopped) this.connect();
+        }, delay + jitter);
+    }
+
+    private send(payload: object): void {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(payload));
+        }
+    }
+
+    private createProxyAgent() {
+        const proxy = this.config.PROXY;
+        if (!proxy) return undefined;
+        return proxy.startsWith('socks') ? new SocksProxyAgent(proxy) : new HttpsProxyAgent(proxy);
+    }
+
+    private clearTimers(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+}
@@ -0,0 +1,20 @@
+import { FeedConfig, FeedSource } from '../../types';
+import { GmgnSocketFeed } from './gmgnSocketFeed';
+
+export { GmgnSocketFeed } from './gmgnSocketFeed';
+
+/**
+ * 根据配置创建数据源
+ * browser 模式按需加载，避免 ws 模式下引入 puppeteer
+ */
+export function createFeedSource(config: FeedConfig): FeedSource {
+    switch (config.SOURCE) {
+        case 'browser': {
+            const { BrowserFeed } = require('./browserFeed') as typeof import('./browserFeed');
+            return new BrowserFeed(config);
+        }
+        case 'ws':
+        default:
+            return new GmgnSocketFeed(config);
+    }
+}
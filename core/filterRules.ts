@@ -0,0 +1,242 @@
+import fs from 'fs';
+import { FilterCheck, FilterCondition, FilterDecision, FilterGroup, FilterOperator, FilterRule, TokenData } from '../types';
+import { now } from '../utils/clock';
+
+// TokenData 中可用于筛选的字段
+const TOKEN_FIELDS = [
+    'a', 'hd', 'mc', 'pg', 'd_ts', 'd_tbr', 'd_cor', 's_brs', 't10', 'bdrr', 'mt', 'rug', 'ct',
+    'nm', 's', 'p', 'v1h', 'lq', 't70_shr', 'pa', 'm_t', 'm_tit', 'm_w', 'm_x', 'm_xctc',
+    'etpr', 'rat', 'lc_flg', 'kol', 'bdc'
+];
+
+// 派生字段
+const DERIVED_FIELDS: Record<string, (token: TokenData) => unknown> = {
+    // 币龄 (分钟)
+    ageMinutes: token => (now() / 1000 - token.ct) / 60,
+    // 是否有任一社交媒体
+    hasSocial: token => !!(token.m_t || token.m_w || token.m_x),
+    // 社交媒体数量
+    socialCount: token => [token.m_t, token.m_w, token.m_x].filter(Boolean).length
+};
+
+const OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq', 'in', 'between', 'truthy', 'falsy'];
+
+export function isFilterGroup(rule: FilterRule): rule is FilterGroup {
+    return 'all' in rule || 'any' in rule;
+}
+
+/**
+ * 是否为可用字段（TokenData 字段或派生字段）
+ */
+export function isKnownField(field: unknown): field is string {
+    return typeof field === 'string' && (TOKEN_FIELDS.includes(field) || field in DERIVED_FIELDS);
+}
+
+/**
+ * 读取字段值（含派生字段）
+ */
+export function resolveField(token: TokenData, field: string): unknown {
+    const derived = DERIVED_FIELDS[field];
+    return derived ? derived(token) : (token as unknown as Record<string, unknown>)[field];
+}
+
+/**
+ * 判断单个条件
+ */
+export function evaluateCondition(condition: FilterCondition, actual: unknown): boolean {
+    const { op, value } = condition;
+    switch (op) {
+        case 'gt': return typeof actual === 'number' && actual > (value as number);
+        case 'gte': return typeof actual === 'number' && actual >= (value as number);
+        case 'lt': return typeof actual === 'number' && actual < (value as number);
+        case 'lte': return typeof actual === 'number' && actual <= (value as number);
+        case 'eq': return actual === value;
+        case 'neq': return actual !== value;
+        case 'in': return (value as (number | string)[]).includes(actual as number | string);
+        case 'between': {
+            const [min, max] = value as number[];
+            return typeof actual === 'number' && actual >= min && actual <= max;
+        }
+        case 'truthy': return !!actual;
+        case 'falsy': return !actual;
+        default: return false;
+    }
+}
+
+/**
+ * 递归判断规则，enabled === false 的规则视为通过
+ */
+export function evaluateFilterRule(rule: FilterRule, token: TokenData): boolean {
+    if (rule.enabled === false) return true;
+
+    if (isFilterGroup(rule)) {
+        if (rule.all) return rule.all.every(child => evaluateFilterRule(child, token));
+        const enabled = (rule.any || []).filter(child => child.enabled !== false);
+        return enabled.length === 0 || enabled.some(child => evaluateFilterRule(child, token));
+    }
+
+    return evaluateCondition(rule, resolveField(token, rule.field));
+}
+
+/**
+ * 逐条判断并记录实际值，enabled === false 的规则不出现在结果中
+ */
+export function explainFilterRule(rule: FilterRule, token: TokenData): FilterCheck {
+    if (isFilterGroup(rule)) {
+        const op = rule.all ? 'all' : 'any';
+        const children = (rule.all || rule.any || [])
+            .filter(child => child.enabled !== false)
+            .map(child => explainFilterRule(child, token));
+        const passed = op === 'all'
+            ? children.every(child => child.passed)
+            : children.length === 0 || children.some(child => child.passed);
+        return { id: rule.id, label: rule.id || rule.description || op, op, passed, children };
+    }
+
+    const actual = resolveField(token, rule.field);
+    return {
+        id: rule.id,
+        label: rule.id || rule.description || rule.field,
+        field: rule.field,
+        op: rule.op,
+        expected: rule.value,
+        actual,
+        passed: evaluateCondition(rule, actual)
+    };
+}
+
+/**
+ * 根规则的每一项作为一条“规则”统计通过/未通过
+ */
+export function explainFilter(rules: FilterGroup, token: TokenData): FilterDecision {
+    const root = explainFilterRule(rules, token);
+    const checks = rules.all ? root.children || [] : [root];
+    return {
+        passed: root.passed,
+        checks,
+        failed: checks.filter(check => !check.passed)
+    };
+}
+
+/**
+ * 校验规则，返回错误列表
+ */
+export function validateFilterRules(rule: unknown, location: string = 'root', ids: Set<string> = new Set()): string[] {
+    const errors: string[] = [];
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+        return [`${location}: rule must be an object`];
+    }
+
+    const candidate = rule as Record<string, unknown>;
+    if (candidate.id !== undefined) {
+        if (typeof candidate.id !== 'string') {
+            errors.push(`${location}: id must be a string`);
+        } else if (ids.has(candidate.id)) {
+            errors.push(`${location}: duplicate id "${candidate.id}"`);
+        } else {
+            ids.add(candidate.id);
+        }
+    }
+    if (candidate.enabled !== undefined && typeof candidate.enabled !== 'boolean') {
+        errors.push(`${location}: enabled must be a boolean`);
+    }
+    const name = typeof candidate.id === 'string' ? `${location}(${candidate.id})` : location;
+
+    if ('all' in candidate || 'any' in candidate) {
+        if ('all' in candidate && 'any' in candidate) {
+            errors.push(`${name}: a group must have either "all" or "any", not both`);
+        }
+        const children = candidate.all ?? candidate.any;
+        if (!Array.isArray(children) || children.length === 0) {
+            errors.push(`${name}: group must contain a non-empty array`);
+            return errors;
+        }
+        children.forEach((child, index) => {
+            errors.push(...validateFilterRules(child, `${name}.${'all' in candidate ? 'all' : 'any'}[${index}]`, ids));
+        });
+        return errors;
+    }
+
+    const { field, op, value } = candidate;
+    if (!isKnownField(field)) {
+        errors.push(`${name}: unknown field "${String(field)}"`);
+    }
+    if (!OPERATORS.includes(op as FilterOperator)) {
+        errors.push(`${name}: unknown operator "${String(op)}"`);
+        return errors;
+    }
+
+    switch (op) {
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            if (typeof value !== 'number') errors.push(`${name}: "${op}" requires a numeric value`);
+            break;
+        case 'between':
+            if (!Array.isArray(value) || value.length !== 2 || value.some(v => typeof v !== 'number') || value[0] > value[1]) {
+                errors.push(`${name}: "between" requires [min, max]`);
+            }
+            break;
+        case 'in':
+            if (!Array.isArray(value) || value.length === 0) errors.push(`${name}: "in" requires a non-empty array`);
+            break;
+        case 'eq':
+        case 'neq':
+            if (value === undefined || (typeof value === 'object' && value !== null)) {
+                errors.push(`${name}: "${op}" requires a primitive value`);
+            }
+            break;
+    }
+    return errors;
+}
+
+/**
+ * 读取并校验规则文件，失败时抛出包含全部错误的异常
+ */
+export function loadFilterRules(filePath: string): FilterGroup {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to read filter rules ${filePath}: ${(error as Error).message}`);
+    }
+
+    const errors = validateFilterRules(parsed);
+    if (errors.length === 0 && !isFilterGroup(parsed as FilterRule)) {
+        errors.push('root: must be a group with "all" or "any"');
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid filter rules in ${filePath}:\n     ${errors.join('\n     ')}`);
+    }
+    return parsed as FilterGroup;
+}
+
+/**
+ * 按 id 查找条件
+ */
+export function findFilterCondition(rule: FilterRule, id: string): FilterCondition | null {
+    if (isFilterGroup(rule)) {
+        for (const child of rule.all || rule.any || []) {
+            const found = findFilterCondition(child, id);
+            if (found) return found;
+        }
+        return null;
+    }
+    return rule.id === id ? rule : null;
+}
+
+/**
+ * 复制规则并按 id 覆盖数值（参数扫描用）
+ */
+export function applyFilterOverrides(rules: FilterGroup, overrides: Record<string, number>): FilterGroup {
+    const copy = JSON.parse(JSON.stringify(rules)) as FilterGroup;
+    for (const [id, value] of Object.entries(overrides)) {
+        const condition = findFilterCondition(copy, id);
+        if (!condition || typeof condition.value !== 'number') {
+            throw new Error(`Filter rule "${id}" not found or has no numeric value`);
+        }
+        condition.value = value;
+    }
+    return copy;
+}
@@ -1,41 +1,28 @@
-import { TokenData } from "../types";
+import { FilterDecision, FilterGroup, TokenData } from "../types";
+import { CONFIG } from "../config";
+import { evaluateFilterRule, explainFilter, loadFilterRules } from "./filterRules";
 
+// 当前生效的筛选规则，首次使用时从 CONFIG.FILTER_RULES_PATH 加载
+let activeRules: FilterGroup | null = null;
 
-export function filterToken(item: TokenData): boolean {
-    const currentTime = Date.now() / 1000; // 当前时间戳（秒）
-    const createdTime = item.ct; // 代币创建时间
-    const ageInMinutes = (currentTime - createdTime) / 60; // 转换为分钟
-    const oneSocial = !!(item.m_t || item.m_w || item.m_x);
+export function getFilterRules(): FilterGroup {
+    if (!activeRules) {
+        activeRules = loadFilterRules(CONFIG.FILTER_RULES_PATH);
+    }
+    return activeRules;
+}
+
+export function setFilterRules(rules: FilterGroup): void {
+    activeRules = rules;
+}
 
-    let flgFilter = !!(
-        item.mc >= 20000 &&
-        item.mc <= 50000 &&
-        item.hd > 200 &&
-        item.pg &&
-        item.pg < 1 &&
-        // ageInMinutes < 60 &&
-        item.etpr < 8 && //钓鱼钱包
-        item.rat < 8 &&
-        item.v1h > 10000 &&
-        item.t70_shr < 0.25 &&
-        item.kol >= 4 &&
-        item.t10 >= 0.15 && item.t10 <= 0.30 &&
-        // item.bdc >= 10 &&
-        ageInMinutes > 3
-    );
+export function filterToken(item: TokenData, rules: FilterGroup = getFilterRules()): boolean {
+    return evaluateFilterRule(rules, item);
+}
 
-    if (flgFilter &&
-        item.d_ts === 'creator_close' &&          // Dev已清仓
-        item.s_brs === 'burn' &&               // 池子已烧毁
-        item.mt === "full" &&                       // 1小时成交量(额) > 20k
-        !item.lc_flg &&
-        oneSocial
-    ) {
-        return true;
-    }
-    return false;
+/**
+ * 带逐条结果的筛选
+ */
+export function explainToken(item: TokenData, rules: FilterGroup = getFilterRules()): FilterDecision {
+    return explainFilter(rules, item);
 }
-// item.bdrr < 0.17 &&                        // 捆绑交易 < 30%
-// item.rug === 0 &&                      // 无Rug风险
-// item.pg && item.pg < 1 &&                  // 内盘
-// item.t70_shr < 0.20 &&                    //狙击
\ No newline at end of file
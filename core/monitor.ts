@@ -1,96 +1,65 @@
-import puppeteer from "puppeteer-extra";
-import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import { WebSocketHandler } from './websocket';
+import { createFeedSource } from './feeds';
+import { FeedWatchdog } from './feedWatchdog';
+import { FeedRecorder } from './feedRecorder';
+import { NearMissDigest } from './nearMissDigest';
+import { ConfigReloader } from './configReloader';
+import { OrderScheduler } from './orderScheduler';
 import logger from "../services/logger";
-import { WSMessage } from "../types";
+import { CONFIG } from "../config";
+import { FeedSource } from "../types";
 
-
-puppeteer.use(StealthPlugin());
-// import fs from "fs"
-// function findMacBrowser(): string {
-//     const possiblePaths = [
-//         "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-//         "/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary",
-//         "/Applications/Chromium.app/Contents/MacOS/Chromium",
-//         "/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge",
-//         "/Applications/Brave Browser.app/Contents/MacOS/Brave Browser",
-//     ];
-
-//     for (const path of possiblePaths) {
-//         if (fs.existsSync(path)) {
-//             return path;
-//         }
-//     }
-// }
 export class Monitor {
     private handler: WebSocketHandler;
+    private feed: FeedSource;
+    private watchdog: FeedWatchdog;
+    private recorder: FeedRecorder | null = null;
+    private nearMissDigest: NearMissDigest;
+    private configReloader: ConfigReloader;
+    private orderScheduler: OrderScheduler;
     private running = false;
 
-    constructor() {
+    constructor(feed: FeedSource = createFeedSource(CONFIG.FEED)) {
         this.handler = new WebSocketHandler();
+        this.feed = feed;
+        this.watchdog = new FeedWatchdog(feed, CONFIG.FEED);
+        this.nearMissDigest = new NearMissDigest(this.handler, CONFIG.NEAR_MISS);
+        this.configReloader = new ConfigReloader(this.handler);
+        this.orderScheduler = new OrderScheduler(this.handler, CONFIG.ORDER_SCHEDULER_INTERVAL);
+        if (CONFIG.RECORDER.ENABLED) {
+            this.recorder = new FeedRecorder(CONFIG.RECORDER.DIR, CONFIG.RECORDER.FLUSH_INTERVAL);
+        }
     }
 
     async start(): Promise<void> {
         this.running = true;
-        logger.info('🚀 Starting monitor...');
+        logger.info(`🚀 Starting monitor (feed: ${this.feed.name})...`);
 
-        const browser = await puppeteer.launch({
-            headless: true,
-            executablePath: '/usr/bin/chromium-browser',
-            // executablePath: findMacBrowser(),
-            args: [
-                "--no-sandbox",
-                "--disable-setuid-sandbox",
-                "--disable-dev-shm-usage",
-                "--disable-web-security"
-            ]
-        });
-
-        const page = await browser.newPage();
-        await page.setUserAgent(
-            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36"
-        );
-
-        const client = await page.target().createCDPSession();
-        await client.send("Network.enable");
-        await client.send("Runtime.enable");
-        client.on("Network.webSocketCreated", (event) => {
-            logger.info(`\n🚀 WebSockt created: ${event.url} ${event.requestId}`);
-        });
-        // 监听WebSocket
-        client.on("Network.webSocketFrameReceived", async (event) => {
-            try {
-                const data = JSON.parse(event.response.payloadData) as WSMessage;
-                await this.handler.handleMessage(data);
-            } catch (error) {
-                // 忽略非JSON消息
-            }
+        this.watchdog.start();
+        this.nearMissDigest.start();
+        this.configReloader.start();
+        this.orderScheduler.start();
+        await this.feed.start(async data => {
+            this.recorder?.record(data);
+            this.watchdog.onMessage(data);
+            await this.handler.handleMessage(data);
         });
 
-        client.on("Network.webSocketClosed", () => {
-            logger.warn('WebSocket disconnected');
-        });
-
-        // 连接GMGN
-        logger.info('Connecting to GMGN...');
-        await page.goto("https://gmgn.ai", {
-            waitUntil: "networkidle0",
-            timeout: 60000
-        });
-
-        await page.waitForTimeout(5000);
-        logger.info('✅ Connected to GMGN');
-
         // 保持运行
         while (this.running) {
             await new Promise(resolve => setTimeout(resolve, 1000));
         }
-
-        await browser.close();
     }
 
-    stop(): void {
+    async stop(): Promise<void> {
         this.running = false;
+        this.watchdog.stop();
+        this.nearMissDigest.stop();
+        this.configReloader.stop();
+        this.orderScheduler.stop();
+        await this.feed.stop();
+        // 等待录制数据写完
+        await this.recorder?.close();
         logger.info('Monitor stopped');
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { WebSocketHandler } from './websocket';
+import { NearMissRecord, TradingConfig } from '../types';
+import { sendToTelegram } from '../services/telegram/message';
+import { formatMarketCap } from '../utils/format';
+import { now } from '../utils/clock';
+import logger from '../services/logger';
+
+export interface RuleMissStats {
+    rule: string;
+    count: number;               // 因该规则未通过的代币数
+    good: number;                // 其中之后涨到 GOOD_MULTIPLIER 倍的数量
+}
+
+/**
+ * 按规则统计未通过次数，涉及多个策略时规则名带上策略前缀
+ */
+export function summarizeNearMisses(records: NearMissRecord[], goodMultiplier: number): RuleMissStats[] {
+    const stats = new Map<string, RuleMissStats>();
+    const multiStrategy = new Set(records.map(record => record.strategy)).size > 1;
+    for (const record of records) {
+        const isGood = record.maxPrice >= record.firstPrice * goodMultiplier;
+        for (const failedRule of record.failedRules) {
+            const rule = multiStrategy ? `${record.strategy}/${failedRule}` : failedRule;
+            const entry = stats.get(rule) || { rule, count: 0, good: 0 };
+            entry.count++;
+            if (isGood) entry.good++;
+            stats.set(rule, entry);
+        }
+    }
+    return [...stats.values()].sort((a, b) => b.good - a.good || b.count - a.count);
+}
+
+/**
+ * 生成 Telegram 汇总消息，没有记录时返回 null
+ */
+export function formatNearMissDigest(records: NearMissRecord[], intervalMinutes: number, goodMultiplier: number): string | null {
+    if (records.length === 0) return null;
+
+    const stats = summarizeNearMisses(records, goodMultiplier);
+    const top = [...records]
+        .sort((a, b) => b.maxPrice / b.firstPrice - a.maxPrice / a.firstPrice)
+        .slice(0, 5);
+
+    const lines = [
+        `🔍 Near-miss 汇总 (最近 ${intervalMinutes} 分钟)`,
+        `差1-2条规则的代币: ${records.length}`,
+        '',
+        `规则 | 次数 | 之后${goodMultiplier}倍`,
+        ...stats.map(s => `${s.rule} | ${s.count} | ${s.good}`),
+        '',
+        '涨幅最高:',
+        ...top.map(r => `${r.symbol} 差 ${r.failedRules.join(', ')} ${formatMarketCap(r.firstPrice)} → ${formatMarketCap(r.maxPrice)} (${(r.maxPrice / r.firstPrice).toFixed(2)}x)`)
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * 定期把 near-miss 汇总发到 Telegram
+ */
+export class NearMissDigest {
+    private handler: WebSocketHandler;
+    private config: TradingConfig['NEAR_MISS'];
+    private timer: NodeJS.Timeout | null = null;
+    private lastSentAt = now();
+
+    constructor(handler: WebSocketHandler, config: TradingConfig['NEAR_MISS']) {
+        this.handler = handler;
+        this.config = config;
+    }
+
+    start(): void {
+        if (this.config.DIGEST_INTERVAL <= 0) return;
+        this.timer = setInterval(() => this.send(), this.config.DIGEST_INTERVAL * 60 * 1000);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    send(): void {
+        try {
+            const since = this.lastSentAt;
+            this.lastSentAt = now();
+            const message = formatNearMissDigest(
+                this.handler.getNearMisses(since),
+                this.config.DIGEST_INTERVAL,
+                this.config.GOOD_MULTIPLIER
+            );
+            if (message) sendToTelegram(message, "Signal");
+        } catch (error) {
+            logger.error('Failed to send near-miss digest:', error);
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { WebSocketHandler } from './websocket';
+import { now } from '../utils/clock';
+import logger from '../services/logger';
+
+/**
+ * 订单定时检查
+ * 订单原本只在代币有新行情时检查，行情停止推送的仓位由这里定期检查超时单和过期订单，并重试失败的订单；
+ * 实盘用定时器驱动，回放时由回放器按虚拟时间调用 tick()
+ */
+export class OrderScheduler {
+    private handler: WebSocketHandler;
+    private interval: number;
+    private timer: NodeJS.Timeout | null = null;
+    private lastRunAt = 0;
+
+    constructor(handler: WebSocketHandler, interval: number) {
+        this.handler = handler;
+        this.interval = interval;
+    }
+
+    start(): void {
+        this.timer = setInterval(() => this.run(), this.interval);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * 距上次检查超过间隔时才检查
+     */
+    async tick(): Promise<void> {
+        if (now() - this.lastRunAt < this.interval) return;
+        await this.run();
+    }
+
+    private async run(): Promise<void> {
+        this.lastRunAt = now();
+        try {
+            await this.handler.evaluateTimedOrders();
+            await this.handler.retryFailedOrders();
+        } catch (error) {
+            logger.error('Order scheduler check failed:', error);
+        }
+    }
+}
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import { CustomOrderConfig, FilterGroup, OrderType, ScoreModel, Strategy, StrategyConfig, StrategyParams, TradingConfig } from '../types';
+import { loadFilterRules } from './filterRules';
+import { loadScoreModel } from './tokenScore';
+import { validateTriggerTree } from '../trading/orderTriggers';
+
+export const DEFAULT_STRATEGY_NAME = 'default';
+
+// 默认出场订单的标签
+export const DEFAULT_ORDER_TAGS = ['STOP_LOSS', 'DOUBLE_PROFIT', 'TARGET_MC_1', 'TARGET_MC_2', 'TRAILING_STOP', 'TIME_EXIT', 'HEALTH_EXIT', 'LFG_SELL'];
+
+/**
+ * 检查出场订单模板参数
+ */
+export function validateStrategyParams(params: StrategyParams, prefix: string = ''): string[] {
+    const errors: string[] = [];
+
+    if (params.INITIAL_STOP_LOSS >= 0) {
+        errors.push(`${prefix}INITIAL_STOP_LOSS must be negative (e.g., -15)`);
+    }
+
+    if (params.DOUBLE_PROFIT_THRESHOLD <= 0) {
+        errors.push(`${prefix}DOUBLE_PROFIT_THRESHOLD must be greater than 0`);
+    }
+
+    for (const key of ['DOUBLE_SELL_RATIO', 'TARGET_MC_1_RATIO', 'TARGET_MC_2_RATIO', 'LFG_SELL_RATIO', 'TRAILING_STOP_RATIO', 'TIME_EXIT_RATIO',
+        'HEALTH_EXIT_RATIO', 'HEALTH_EXIT_HOLDER_DROP', 'HEALTH_EXIT_VOLUME_DROP'] as const) {
+        if (params[key] < 0 || params[key] > 100) {
+            errors.push(`${prefix}${key} must be between 0 and 100`);
+        }
+    }
+
+    if (params.TRAILING_STOP_PERCENT < 0 || params.TRAILING_STOP_PERCENT >= 100) {
+        errors.push(`${prefix}TRAILING_STOP_PERCENT must be between 0 and 100 (0 = disabled)`);
+    }
+
+    if (params.TRAILING_STOP_ACTIVATION < 0) {
+        errors.push(`${prefix}TRAILING_STOP_ACTIVATION must not be negative`);
+    }
+
+    if (params.TIME_EXIT_MINUTES < 0 || params.TAKE_PROFIT_TTL_MINUTES < 0) {
+        errors.push(`${prefix}TIME_EXIT_MINUTES and TAKE_PROFIT_TTL_MINUTES must not be negative (0 = disabled)`);
+    }
+
+    if (params.HEALTH_EXIT_T10_RISE < 0) {
+        errors.push(`${prefix}HEALTH_EXIT_T10_RISE must not be negative (0 = disabled)`);
+    }
+
+    for (const key of ['BREAK_EVEN_AFTER_DOUBLE', 'TRAILING_AFTER_TARGET_1', 'LFG_OR_TARGET_MC_1', 'HEALTH_EXIT_DEV_STATUS',
+        'SELL_RATIO_OF_ORIGINAL'] as const) {
+        if (params[key] !== 0 && params[key] !== 1) {
+            errors.push(`${prefix}${key} must be 0 or 1`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * 检查自定义订单
+ */
+export function validateCustomOrders(orders: unknown, prefix: string = ''): string[] {
+    if (!Array.isArray(orders)) {
+        return [`${prefix}ORDERS must be an array`];
+    }
+
+    const errors: string[] = [];
+    const tags = new Set<string>();
+    orders.forEach((order: CustomOrderConfig, index) => {
+        const location = `${prefix}ORDERS[${index}]`;
+        if (!order || typeof order !== 'object') {
+            errors.push(`${location}: must be an object`);
+            return;
+        }
+        if (typeof order.tag !== 'string' || !/^[\w-]+$/.test(order.tag)) {
+            errors.push(`${location}: tag must be a non-empty string of letters, digits, "_" or "-"`);
+        } else if (DEFAULT_ORDER_TAGS.includes(order.tag) || tags.has(order.tag)) {
+            errors.push(`${location}: duplicate tag "${order.tag}"`);
+        }
+        tags.add(order.tag);
+        if (!Object.values(OrderType).includes(order.type) || order.type === OrderType.MARKET_BUY) {
+            errors.push(`${location}: type must be a sell order type`);
+        }
+        if (typeof order.sellRatio !== 'number' || order.sellRatio <= 0 || order.sellRatio > 100) {
+            errors.push(`${location}: sellRatio must be between 0 (exclusive) and 100`);
+        }
+        for (const key of ['triggerDescription', 'description'] as const) {
+            if (order[key] !== undefined && typeof order[key] !== 'string') {
+                errors.push(`${location}: ${key} must be a string`);
+            }
+        }
+        errors.push(...validateTriggerTree(order.triggerTree, `${location}.triggerTree`));
+    });
+    return errors;
+}
+
+/**
+ * 用 .env 中的全局配置构造 default 策略
+ */
+export function buildDefaultStrategy(config: TradingConfig): Strategy {
+    return {
+        name: DEFAULT_STRATEGY_NAME,
+        rulesPath: config.FILTER_RULES_PATH,
+        rules: loadFilterRules(config.FILTER_RULES_PATH),
+        scoreModelPath: config.SCORE_MODEL_PATH,
+        scoreModel: loadScoreModel(config.SCORE_MODEL_PATH),
+        solInvestmentAmount: config.SOL_INVESTMENT_AMOUNT,
+        maxPositions: config.RISK.MAX_POSITIONS,
+        params: { ...config.STRATEGY },
+        orders: [],
+        migratePendingOrders: config.MIGRATE_PENDING_ORDERS
+    };
+}
+
+/**
+ * 加载策略文件
+ * 文件不存在时只运行 default 策略；所有错误汇总后一次抛出
+ */
+export function loadStrategies(filePath: string, config: TradingConfig): Strategy[] {
+    if (!fs.existsSync(filePath)) {
+        return [buildDefaultStrategy(config)];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to read strategies ${filePath}: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(parsed)) {
+        throw new Error(`Invalid strategies in ${filePath}: root must be an array`);
+    }
+
+    const errors: string[] = [];
+    const strategies: Strategy[] = [];
+    const names = new Set<string>();
+    const rulesByPath = new Map<string, FilterGroup>();
+    const scoreModelsByPath = new Map<string, ScoreModel | null>();
+
+    parsed.forEach((item: StrategyConfig, index) => {
+        const location = `[${index}]${item?.NAME ? ` ${item.NAME}` : ''}`;
+        if (!item || typeof item !== 'object') {
+            errors.push(`${location}: must be an object`);
+            return;
+        }
+        if (typeof item.NAME !== 'string' || !/^[\w-]+$/.test(item.NAME)) {
+            errors.push(`${location}: NAME must be a non-empty string of letters, digits, "_" or "-"`);
+        } else if (names.has(item.NAME)) {
+            errors.push(`${location}: duplicate NAME`);
+        }
+        names.add(item.NAME);
+        if (item.ENABLED === false) return;
+
+        const solInvestmentAmount = item.SOL_INVESTMENT_AMOUNT ?? config.SOL_INVESTMENT_AMOUNT;
+        if (typeof solInvestmentAmount !== 'number' || solInvestmentAmount <= 0) {
+            errors.push(`${location}: SOL_INVESTMENT_AMOUNT must be greater than 0`);
+        }
+        const maxPositions = item.MAX_POSITIONS ?? config.RISK.MAX_POSITIONS;
+        if (!Number.isInteger(maxPositions) || maxPositions <= 0) {
+            errors.push(`${location}: MAX_POSITIONS must be a positive integer`);
+        }
+
+        for (const [key, value] of Object.entries(item.STRATEGY || {})) {
+            if (!(key in config.STRATEGY)) {
+                errors.push(`${location}: unknown STRATEGY key "${key}"`);
+            } else if (typeof value !== 'number') {
+                errors.push(`${location}: STRATEGY.${key} must be a number`);
+            }
+        }
+        const params = { ...config.STRATEGY, ...item.STRATEGY };
+        errors.push(...validateStrategyParams(params, `${location}: `));
+        if (item.ORDERS !== undefined) {
+            errors.push(...validateCustomOrders(item.ORDERS, `${location}: `));
+        }
+
+        const rulesPath = item.FILTER_RULES_PATH || config.FILTER_RULES_PATH;
+        let rules = rulesByPath.get(rulesPath);
+        if (!rules) {
+            try {
+                rules = loadFilterRules(rulesPath);
+                rulesByPath.set(rulesPath, rules);
+            } catch (error) {
+                errors.push(`${location}: ${(error as Error).message}`);
+                return;
+            }
+        }
+
+        const scoreModelPath = item.SCORE_MODEL_PATH || config.SCORE_MODEL_PATH;
+        if (!scoreModelsByPath.has(scoreModelPath)) {
+            try {
+                scoreModelsByPath.set(scoreModelPath, loadScoreModel(scoreModelPath));
+            } catch (error) {
+                errors.push(`${location}: ${(error as Error).message}`);
+                return;
+            }
+        }
+
+        strategies.push({
+            name: item.NAME,
+            rulesPath,
+            rules,
+            scoreModelPath,
+            scoreModel: scoreModelsByPath.get(scoreModelPath)!,
+            solInvestmentAmount,
+            maxPositions,
+            params,
+            orders: item.ORDERS || [],
+            migratePendingOrders: item.MIGRATE_PENDING_ORDERS === true
+        });
+    });
+
+    if (errors.length === 0 && strategies.length === 0) {
+        errors.push('no enabled strategy');
+    }
+    if (errors.length > 0) {
+        throw new Error(`Invalid strategies in ${filePath}:\n     ${errors.join('\n     ')}`);
+    }
+    return strategies;
+}
@@ -0,0 +1,188 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { CONFIG } from '../config';
+import { getStrategies } from './activeStrategies';
+import { findFilterCondition } from './filterRules';
+import { BacktestReport } from './backtest';
+import { FillModel, Strategy, StrategyParams } from '../types';
+import logger from '../services/logger';
+
+export type SweepCombination = Record<string, number>;
+
+export interface SweepParam {
+    name: string;
+    values: number[];
+}
+
+export interface SweepOptions {
+    files: string[];
+    params: SweepParam[];
+    fillModel: FillModel;
+    strategies?: string[];       // 只回测指定名称的策略 (默认全部)
+    workers?: number;
+}
+
+export interface SweepResult {
+    params: SweepCombination;
+    report: BacktestReport;
+}
+
+export type SweepSortKey = 'realizedPnl' | 'totalPnl' | 'winRate' | 'maxDrawdown';
+
+// 主线程与工作线程之间的消息
+export type SweepTask = { id: number; params: SweepCombination };
+export type SweepWorkerMessage =
+    | { type: 'ready' }
+    | { type: 'result'; id: number; report: BacktestReport }
+    | { type: 'error'; id: number; error: string };
+
+/**
+ * 解析参数范围: NAME=a,b,c 或 NAME=from:to:step
+ */
+export function parseSweepParam(spec: string, strategies: Strategy[] = getStrategies()): SweepParam {
+    const [name, range] = spec.split('=');
+    if (!name || !range) {
+        throw new Error(`Invalid param "${spec}", expected NAME=a,b,c or NAME=from:to:step`);
+    }
+    const isRule = strategies.some(strategy => typeof findFilterCondition(strategy.rules, name)?.value === 'number');
+    if (!(name in CONFIG.STRATEGY) && !isRule) {
+        throw new Error(`Unknown param "${name}", must be a CONFIG.STRATEGY key or the id of a numeric filter rule`);
+    }
+
+    let values: number[];
+    if (range.includes(':')) {
+        const [from, to, step] = range.split(':').map(Number);
+        if ([from, to, step].some(isNaN) || step === 0 || (to - from) / step < 0) {
+            throw new Error(`Invalid range for ${name}: ${range}`);
+        }
+        const count = Math.floor((to - from) / step + 1e-9);
+        values = Array.from({ length: count + 1 }, (_, i) => parseFloat((from + i * step).toFixed(10)));
+    } else {
+        values = range.split(',').map(Number);
+        if (values.some(isNaN)) {
+            throw new Error(`Invalid values for ${name}: ${range}`);
+        }
+    }
+
+    return { name, values };
+}
+
+/**
+ * 展开为所有参数组合 (笛卡尔积)
+ */
+export function expandGrid(params: SweepParam[]): SweepCombination[] {
+    return params.reduce<SweepCombination[]>(
+        (combos, param) => combos.flatMap(combo => param.values.map(value => ({ ...combo, [param.name]: value }))),
+        [{}]
+    );
+}
+
+/**
+ * 把组合拆分为策略参数和筛选规则覆盖 (规则 id → 数值)
+ */
+export function splitCombination(combo: SweepCombination): {
+    strategy: Partial<StrategyParams>;
+    filter: Record<string, number>;
+} {
+    const strategy: Record<string, number> = {};
+    const filter: Record<string, number> = {};
+    for (const [name, value] of Object.entries(combo)) {
+        if (name in CONFIG.STRATEGY) strategy[name] = value;
+        else filter[name] = value;
+    }
+    return { strategy, filter };
+}
+
+/**
+ * 在工作线程中并行回测所有参数组合
+ */
+export function runSweep(options: SweepOptions): Promise<SweepResult[]> {
+    const combos = expandGrid(options.params);
+    const workerCount = Math.max(1, Math.min(options.workers || os.cpus().length, combos.length));
+    const results: SweepResult[] = [];
+    const workers: Worker[] = [];
+    let next = 0;
+
+    logger.info(`🧪 Sweeping ${combos.length} combinations on ${workerCount} workers`);
+
+    return new Promise((resolve, reject) => {
+        const fail = (error: Error) => {
+            workers.forEach(worker => worker.terminate());
+            reject(error);
+        };
+
+        const dispatch = (worker: Worker) => {
+            if (next >= combos.length) {
+                worker.terminate();
+                return;
+            }
+            const task: SweepTask = { id: next, params: combos[next] };
+            next++;
+            worker.postMessage(task);
+        };
+
+        for (let i = 0; i < workerCount; i++) {
+            const worker = new Worker(path.join(__dirname, 'sweepWorker.js'), {
+                workerData: { files: options.files, fillModel: options.fillModel, strategies: options.strategies }
+            });
+            workers.push(worker);
+
+            worker.on('message', (message: SweepWorkerMessage) => {
+                if (message.type === 'error') {
+                    fail(new Error(`Combination ${JSON.stringify(combos[message.id])} failed: ${message.error}`));
+                    return;
+                }
+                if (message.type === 'result') {
+                    results.push({ params: combos[message.id], report: message.report });
+                    logger.info(`[${results.length}/${combos.length}] ${JSON.stringify(combos[message.id])}`);
+                    if (results.length === combos.length) {
+                        workers.forEach(w => w.terminate());
+                        resolve(results);
+                        return;
+                    }
+                }
+                dispatch(worker);
+            });
+            worker.on('error', fail);
+        }
+    });
+}
+
+/**
+ * 排序
+ */
+export function rankSweepResults(results: SweepResult[], sortBy: SweepSortKey = 'realizedPnl'): SweepResult[] {
+    const score = (report: BacktestReport): number => {
+        switch (sortBy) {
+            case 'totalPnl': return report.realizedPnl + report.unrealizedPnl;
+            case 'winRate': return report.winRate;
+            case 'maxDrawdown': return -report.maxDrawdown;
+            case 'realizedPnl':
+            default: return report.realizedPnl;
+        }
+    };
+    return [...results].sort((a, b) => score(b.report) - score(a.report));
+}
+
+/**
+ * 格式化为表格
+ */
+export function formatSweepTable(results: SweepResult[], paramNames: string[], top: number = 20): string {
+    const headers = ['#', ...paramNames, 'signals', 'winRate', 'realized', 'unrealized', 'maxDD', 'avgHold(m)'];
+    const rows = results.slice(0, top).map((result, index) => [
+        String(index + 1),
+        ...paramNames.map(name => String(result.params[name])),
+        String(result.report.signals),
+        `${result.report.winRate.toFixed(1)}%`,
+        result.report.realizedPnl.toFixed(4),
+        result.report.unrealizedPnl.toFixed(4),
+        result.report.maxDrawdown.toFixed(4),
+        (result.report.averageHoldMs / 60000).toFixed(1)
+    ]);
+
+    const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+    const format = (cells: string[]) => cells.map((cell, i) => cell.padStart(widths[i])).join('  ');
+
+    return [format(headers), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)].join('\n');
+}
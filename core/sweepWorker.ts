@@ -0,0 +1,37 @@
+import { parentPort, workerData } from 'worker_threads';
+import { runBacktest } from './backtest';
+import { loadRecordedFrames } from './replay';
+import { splitCombination, SweepTask, SweepWorkerMessage } from './sweep';
+import { selectStrategies } from './activeStrategies';
+import { FillModel } from '../types';
+import logger from '../services/logger';
+
+/**
+ * 参数扫描工作线程：加载一次录制数据，逐个回测主线程分配的参数组合
+ */
+const { files, fillModel, strategies: names } = workerData as { files: string[]; fillModel: FillModel; strategies?: string[] };
+const port = parentPort!;
+logger.level = 'error';
+
+async function main(): Promise<void> {
+    const frames = await loadRecordedFrames(files);
+    const strategies = selectStrategies(names);
+
+    port.on('message', async (task: SweepTask) => {
+        let message: SweepWorkerMessage;
+        try {
+            const report = await runBacktest({ files, frames, fillModel, strategies, ...splitCombination(task.params) });
+            message = { type: 'result', id: task.id, report };
+        } catch (error) {
+            message = { type: 'error', id: task.id, error: (error as Error).message };
+        }
+        port.postMessage(message);
+    });
+
+    port.postMessage({ type: 'ready' } as SweepWorkerMessage);
+}
+
+// 加载失败时抛出，主线程通过 worker 'error' 事件感知
+main().catch(error => setImmediate(() => {
+    throw error;
+}));
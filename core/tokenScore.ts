@@ -0,0 +1,103 @@
+import fs from 'fs';
+import { ScoreModel, TokenData, TokenScore } from '../types';
+import { isKnownField, resolveField } from './filterRules';
+
+/**
+ * 计算代币评分 (0-100)
+ * 每个因子把字段值在 [min, max] 内线性映射到 0-1 (超出范围截断，缺失视为 0)，再按权重加权平均
+ */
+export function scoreToken(token: TokenData, model: ScoreModel): TokenScore {
+    let total = 0;
+    let weights = 0;
+
+    const factors = model.factors.map(factor => {
+        const value = resolveField(token, factor.field);
+        const numeric = typeof value === 'boolean' ? Number(value) : value;
+        let normalized = 0;
+        if (typeof numeric === 'number' && !isNaN(numeric)) {
+            normalized = Math.min(1, Math.max(0, (numeric - factor.min) / (factor.max - factor.min)));
+            if (factor.invert) normalized = 1 - normalized;
+        }
+        total += normalized * factor.weight;
+        weights += factor.weight;
+        return { field: factor.field, value, normalized, weight: factor.weight };
+    });
+
+    return {
+        score: weights > 0 ? total / weights * 100 : 0,
+        factors
+    };
+}
+
+/**
+ * 按分数调整买入金额: minScore → minMultiplier，100 分 → maxMultiplier
+ */
+export function scalePositionSize(amount: number, score: number, model: ScoreModel): number {
+    const scaling = model.sizeScaling;
+    if (!scaling?.enabled) return amount;
+
+    const ratio = model.minScore >= 100 ? 1 : Math.max(0, (score - model.minScore) / (100 - model.minScore));
+    return amount * (scaling.minMultiplier + (scaling.maxMultiplier - scaling.minMultiplier) * Math.min(1, ratio));
+}
+
+/**
+ * 校验评分模型，返回错误列表
+ */
+export function validateScoreModel(model: unknown): string[] {
+    if (!model || typeof model !== 'object' || Array.isArray(model)) {
+        return ['root: must be an object'];
+    }
+
+    const errors: string[] = [];
+    const candidate = model as Partial<ScoreModel>;
+    if (typeof candidate.minScore !== 'number' || candidate.minScore < 0 || candidate.minScore > 100) {
+        errors.push('minScore must be between 0 and 100');
+    }
+    if (!Array.isArray(candidate.factors) || candidate.factors.length === 0) {
+        errors.push('factors must be a non-empty array');
+    } else {
+        candidate.factors.forEach((factor, index) => {
+            const name = `factors[${index}]${factor?.field ? `(${factor.field})` : ''}`;
+            if (!isKnownField(factor?.field)) {
+                errors.push(`${name}: unknown field "${String(factor?.field)}"`);
+            }
+            if (typeof factor?.weight !== 'number' || factor.weight <= 0) {
+                errors.push(`${name}: weight must be greater than 0`);
+            }
+            if (typeof factor?.min !== 'number' || typeof factor?.max !== 'number' || factor.max <= factor.min) {
+                errors.push(`${name}: min and max must be numbers with max > min`);
+            }
+        });
+    }
+
+    const scaling = candidate.sizeScaling;
+    if (scaling !== undefined) {
+        if (typeof scaling.enabled !== 'boolean') {
+            errors.push('sizeScaling.enabled must be a boolean');
+        }
+        if (!(scaling.minMultiplier > 0) || !(scaling.maxMultiplier >= scaling.minMultiplier)) {
+            errors.push('sizeScaling requires 0 < minMultiplier <= maxMultiplier');
+        }
+    }
+    return errors;
+}
+
+/**
+ * 读取评分模型，文件不存在时返回 null，校验失败时抛出包含全部错误的异常
+ */
+export function loadScoreModel(filePath: string): ScoreModel | null {
+    if (!fs.existsSync(filePath)) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to read score model ${filePath}: ${(error as Error).message}`);
+    }
+
+    const errors = validateScoreModel(parsed);
+    if (errors.length > 0) {
+        throw new Error(`Invalid score model in ${filePath}:\n     ${errors.join('\n     ')}`);
+    }
+    return parsed as ScoreModel;
+}
@@ -0,0 +1,122 @@
+import { TokenData, TradingConfig, WatchlistEntry } from '../types';
+import { now } from '../utils/clock';
+import logger from '../services/logger';
+
+export type WatchStatus = 'none' | 'watching' | 'confirmed' | 'dropped';
+
+/**
+ * 开仓前的观察名单
+ * 通过筛选的代币先进入名单，连续 CONFIRM_FRAMES 帧且经过 CONFIRM_SECONDS 秒仍然通过才确认开仓；
+ * 期间未通过且持有人/交易量没有继续增长，或相对峰值回落超过阈值时移出名单
+ */
+export class Watchlist {
+    private config: TradingConfig['WATCHLIST'];
+    private entries = new Map<string, WatchlistEntry>();
+    private lastPrune = 0;
+
+    constructor(config: TradingConfig['WATCHLIST']) {
+        this.config = config;
+    }
+
+    /**
+     * 用新的一帧更新候选状态
+     * @param passed 该帧是否通过策略的筛选和评分
+     */
+    update(token: TokenData, strategy: string, passed: boolean): WatchStatus {
+        const key = `${strategy}:${token.a}`;
+        const timestamp = now();
+        const holders = token.hd || 0;
+        const volume = token.v1h || 0;
+        this.prune(timestamp);
+
+        const entry = this.entries.get(key);
+        if (!entry) {
+            if (!passed) return 'none';
+
+            const created: WatchlistEntry = {
+                address: token.a,
+                symbol: token.s || '',
+                strategy,
+                firstSeen: timestamp,
+                lastSeen: timestamp,
+                frames: 1,
+                lastHolders: holders,
+                lastVolume: volume,
+                peakHolders: holders,
+                peakVolume: volume
+            };
+            if (this.isConfirmed(created, timestamp)) return 'confirmed';
+
+            this.entries.set(key, created);
+            logger.info(`👀 ${created.symbol} added to watchlist (${strategy})`);
+            return 'watching';
+        }
+
+        const reason = this.getDropReason(entry, holders, volume, passed);
+        if (reason) {
+            this.entries.delete(key);
+            logger.info(`👋 ${entry.symbol} dropped from watchlist (${strategy}): ${reason}`);
+            return 'dropped';
+        }
+
+        if (passed) entry.frames++;
+        entry.lastSeen = timestamp;
+        entry.lastHolders = holders;
+        entry.lastVolume = volume;
+        entry.peakHolders = Math.max(entry.peakHolders, holders);
+        entry.peakVolume = Math.max(entry.peakVolume, volume);
+
+        if (passed && this.isConfirmed(entry, timestamp)) {
+            this.entries.delete(key);
+            logger.info(`✅ ${entry.symbol} confirmed after ${entry.frames} frames / ${((timestamp - entry.firstSeen) / 1000).toFixed(0)}s (${strategy})`);
+            return 'confirmed';
+        }
+        return 'watching';
+    }
+
+    /**
+     * 移出名单 (例如已开仓)
+     */
+    remove(address: string): void {
+        for (const [key, entry] of this.entries) {
+            if (entry.address === address) this.entries.delete(key);
+        }
+    }
+
+    getEntries(): WatchlistEntry[] {
+        return [...this.entries.values()];
+    }
+
+    private isConfirmed(entry: WatchlistEntry, timestamp: number): boolean {
+        return entry.frames >= this.config.CONFIRM_FRAMES
+            && timestamp - entry.firstSeen >= this.config.CONFIRM_SECONDS * 1000;
+    }
+
+    private getDropReason(entry: WatchlistEntry, holders: number, volume: number, passed: boolean): string | null {
+        if (holders < entry.peakHolders * (1 - this.config.MAX_HOLDER_DROP / 100)) {
+            return `holders ${entry.peakHolders} → ${holders}`;
+        }
+        if (volume < entry.peakVolume * (1 - this.config.MAX_VOLUME_DROP / 100)) {
+            return `v1h ${entry.peakVolume.toFixed(0)} → ${volume.toFixed(0)}`;
+        }
+        if (!passed && (holders < entry.lastHolders || volume < entry.lastVolume)) {
+            return 'filter failed and holders/volume not improving';
+        }
+        return null;
+    }
+
+    /**
+     * 清理超时未确认的候选，每秒最多一次
+     */
+    private prune(timestamp: number): void {
+        if (timestamp - this.lastPrune < 1000) return;
+        this.lastPrune = timestamp;
+
+        for (const [key, entry] of this.entries) {
+            if (timestamp - entry.lastSeen > this.config.EXPIRE_SECONDS * 1000) {
+                this.entries.delete(key);
+                logger.info(`⌛ ${entry.symbol} expired from watchlist (${entry.strategy})`);
+            }
+        }
+    }
+}
@@ -1,23 +1,46 @@
 import { sendToTelegram } from '../services/telegram/message';
-import { filterToken } from './filterToken';
+import { explainToken } from './filterToken';
+import { scoreToken } from './tokenScore';
+import { Watchlist } from './watchlist';
 import { PositionManager } from '../trading/positionManager';
 import { OrderManager } from '../trading/orderManager';
 import { TradingDatabase } from '../database/tradingDb';
-import { TokenData, WSMessage } from '../types';
+import { jupiterExecutor } from '../trading/jupiterSwap';
+import { SimulatedExecutor } from '../trading/simulatedExecutor';
+import { getStrategies } from './activeStrategies';
+import { ClosedPosition, ClosedPositionQuery, ClosedPositionReport, FilterDecision, NearMissRecord, OrderEvent, OrderType, ScoreBucketStats, Strategy, TokenData, TradeExecutor, WatchlistEntry, WSMessage } from '../types';
 import { generateTokenMessage } from '../utils/format';
 import logger from '../services/logger';
 import { CONFIG } from '../config';
+import { now } from '../utils/clock';
 
 export class WebSocketHandler {
     private db: TradingDatabase;
     private orderManager: OrderManager;
     private positionManager: PositionManager;
     private processing = new Set<string>();
+    private busyMarketCaps = new Map<string, number>();     // 处理中的代币被跳过的帧里的最新市值
+    private strategies: Strategy[] | null;
+    private watchlist = new Watchlist(CONFIG.WATCHLIST);
+    private nearMissAddresses: Set<string>;     // 已记录的筛选未通过代币
 
-    constructor(dbPath?: string) {
+    /**
+     * @param strategies 不传时使用 CONFIG.STRATEGIES_PATH 中的策略
+     */
+    constructor(dbPath?: string, executor?: TradeExecutor, strategies?: Strategy[]) {
+        this.strategies = strategies || null;
         this.db = new TradingDatabase(dbPath);
-        this.orderManager = new OrderManager(this.db);
-        this.positionManager = new PositionManager(this.db, this.orderManager);
+        this.nearMissAddresses = new Set(this.db.getNearMissAddresses());
+        // 关闭交易时模拟成交，虚拟余额从模拟交易记录恢复
+        executor = executor || (CONFIG.TRADE_ENABLED
+            ? jupiterExecutor
+            : new SimulatedExecutor(
+                CONFIG.SIMULATION,
+                CONFIG.PAPER_SOL_BALANCE + this.db.getSimulatedNetSol(),
+                address => this.busyMarketCaps.get(address)
+            ));
+        this.orderManager = new OrderManager(this.db, executor);
+        this.positionManager = new PositionManager(this.db, this.orderManager, executor);
 
         logger.info('🚀 WebSocket handler initialized with SQLite backend');
     }
@@ -41,31 +64,142 @@ export class WebSocketHandler {
         const price = token.mc;
         if (!address || !symbol || isNaN(price) || price <= 0) return;
 
-        // 防止并发处理同一个token
-        if (this.processing.has(address)) return;
+        // 防止并发处理同一个token，跳过的帧只记下市值供模拟成交使用
+        if (this.processing.has(address)) {
+            this.busyMarketCaps.set(address, price);
+            return;
+        }
         this.processing.add(address);
         try {
             let position = this.positionManager.getPosition(address);
             if (!position) {
-                // 检查是否需要创建新仓位
-                if (filterToken(token)) {
-                    position = await this.positionManager.createPosition(token, CONFIG.SOL_INVESTMENT_AMOUNT);
+                // 按顺序检查各策略，通过筛选并达到最低评分的代币先进入观察名单，
+                // 确认后由第一个仍有额度的策略开仓
+                let closest: { strategy: Strategy; decision: FilterDecision } | null = null;
+                let passed = false;
+                for (const strategy of this.getStrategies()) {
+                    const decision = explainToken(token, strategy.rules);
+                    const score = decision.passed && strategy.scoreModel ? scoreToken(token, strategy.scoreModel) : null;
+                    const eligible = decision.passed && (!score || score.score >= strategy.scoreModel!.minScore);
+                    if (score && !eligible) {
+                        logger.debug(`${symbol} score ${score.score.toFixed(1)} below ${strategy.name} minimum ${strategy.scoreModel!.minScore}`);
+                    }
+                    const status = this.watchlist.update(token, strategy.name, eligible);
+
+                    if (!decision.passed) {
+                        if (status === 'none' && (!closest || decision.failed.length < closest.decision.failed.length)) {
+                            closest = { strategy, decision };
+                        }
+                        continue;
+                    }
+                    passed = true;
+                    if (status !== 'confirmed' || !this.positionManager.hasCapacity(strategy)) continue;
+
+                    position = await this.positionManager.createPosition(token, strategy, score);
                     if (position) {
-                        const message = generateTokenMessage(token);
+                        this.watchlist.remove(address);
+                        const message = generateTokenMessage(token, strategy.name, score);
                         sendToTelegram(message, "Signal");
                     }
+                    break;
+                }
+                if (!passed && closest) {
+                    this.recordNearMiss(token, closest.strategy, closest.decision);
                 }
             } else {
                 // 更新现有仓位（内部会自动检查和执行订单）
-                await this.positionManager.updatePosition(address, price, token.lc_flg);
+                await this.positionManager.updatePosition(token);
             }
         } catch (error) {
             logger.error(`Error processing token ${symbol}:`, error);
         } finally {
-            this.processing.delete(address);
+            this.release(address);
+        }
+    }
+
+    /**
+     * 检查所有仓位的超时单和过期订单，正在处理行情的仓位跳过
+     */
+    async evaluateTimedOrders(): Promise<void> {
+        for (const position of this.positionManager.getActivePositions()) {
+            const address = position.address;
+            if (this.processing.has(address)) continue;
+            this.processing.add(address);
+            try {
+                await this.positionManager.evaluateTimedOrders(address);
+            } catch (error) {
+                logger.error(`Error evaluating timed orders for ${position.symbol}:`, error);
+            } finally {
+                this.release(address);
+            }
+        }
+    }
+
+    /**
+     * 恢复到了重试时间的失败订单并立即按最近行情检查
+     */
+    async retryFailedOrders(): Promise<void> {
+        for (const address of this.orderManager.rearmDueRetries()) {
+            if (this.processing.has(address)) continue;  // 正在处理行情，下一帧会检查
+            this.processing.add(address);
+            try {
+                await this.positionManager.checkOrders(address);
+            } catch (error) {
+                logger.error(`Error retrying orders for ${address}:`, error);
+            } finally {
+                this.release(address);
+            }
         }
     }
 
+    private release(address: string): void {
+        this.processing.delete(address);
+        this.busyMarketCaps.delete(address);
+    }
+
+    /**
+     * 只差一两条规则的代币记录下来，其余的只更新已记录代币的最高市值
+     */
+    private recordNearMiss(token: TokenData, strategy: Strategy, decision: FilterDecision): void {
+        if (decision.failed.length <= CONFIG.NEAR_MISS.MAX_FAILED_RULES) {
+            this.db.upsertNearMiss(
+                token.a,
+                token.s || '',
+                strategy.name,
+                token.mc,
+                decision.failed.map(check => check.label),
+                decision.checks,
+                now()
+            );
+            this.nearMissAddresses.add(token.a);
+        } else if (this.nearMissAddresses.has(token.a)) {
+            this.db.updateNearMissPrice(token.a, token.mc, now());
+        }
+    }
+
+    // ============= 策略 =============
+
+    /**
+     * 当前生效的策略
+     */
+    getStrategies(): Strategy[] {
+        return this.strategies || getStrategies();
+    }
+
+    /**
+     * 观察名单中的代币
+     */
+    getWatchlist(): WatchlistEntry[] {
+        return this.watchlist.getEntries();
+    }
+
+    /**
+     * 把策略现有仓位的待执行订单迁移到新的出场模板
+     */
+    migratePendingOrders(previous: Strategy, next: Strategy): number {
+        return this.positionManager.migratePendingOrders(previous, next);
+    }
+
     // ============= 仓位管理接口 =============
 
     /**
@@ -127,6 +261,28 @@ export class WebSocketHandler {
         return this.orderManager.getPendingOrders();
     }
 
+    /**
+     * 已平仓仓位
+     */
+    getClosedPositions(query: ClosedPositionQuery = {}): ClosedPosition[] {
+        return this.db.getClosedPositions(query);
+    }
+
+    /**
+     * 已平仓仓位汇总
+     */
+    getClosedPositionReport(query: ClosedPositionQuery = {}): ClosedPositionReport {
+        return this.db.getClosedPositionReport(query);
+    }
+
+    /**
+     * 仓位的订单时间线 (仓位已平仓也可查询)
+     * @param entryTime 开仓时间，同一代币多次开仓时指定查询哪一次，默认最近一次
+     */
+    getPositionTimeline(address: string, entryTime?: number): OrderEvent[] {
+        return this.db.getOrderEvents(address, entryTime);
+    }
+
     /**
      * 获取订单详情
      */
@@ -202,19 +358,37 @@ export class WebSocketHandler {
         const totalGain = positions.reduce((sum, p) => sum + this.positionManager.calculateGain(p), 0);
         const avgGain = positions.length > 0 ? totalGain / positions.length : 0;
 
-        const tradeHistory = this.db.getTradeHistory(1000);
-        const successfulTrades = tradeHistory.filter(t => t.gainPercent > 0);
-        const successRate = tradeHistory.length > 0 ? successfulTrades.length / tradeHistory.length * 100 : 0;
+        const sells = this.db.getTradeHistory(1000).filter(t => t.type !== OrderType.MARKET_BUY);
+        const successfulTrades = sells.filter(t => t.realizedPnl > 0);
+        const successRate = sells.length > 0 ? successfulTrades.length / sells.length * 100 : 0;
 
+        const totals = this.db.getTradeTotals();
+        const unrealizedPnl = positions.reduce((sum, p) => sum + this.positionManager.calculatePnl(p).unrealizedPnl, 0);
 
         return {
             totalPositions: positions.length,
             averageGain: avgGain.toFixed(2),
             successRate: successRate.toFixed(2),
-            totalTrades: tradeHistory.length,
+            totalTrades: sells.length,
+            ...totals,
+            unrealizedPnl
         };
     }
 
+    /**
+     * 按开仓评分分组的表现
+     */
+    getScorePerformance(bucketSize: number = 10): ScoreBucketStats[] {
+        return this.db.getScorePerformance(bucketSize);
+    }
+
+    /**
+     * 获取差一两条规则的代币
+     */
+    getNearMisses(since: number): NearMissRecord[] {
+        return this.db.getNearMisses(since);
+    }
+
     // ============= 数据库管理接口 =============
 
     /**
@@ -1,12 +1,17 @@
 import Database from 'better-sqlite3';
-import { Position, Order, OrderStatus, PositionStatus, TradeHistoryRecord } from '../types';
+import { Position, Order, OrderEvent, OrderStatus, PositionStatus, TradeHistoryRecord, NearMissRecord, FilterCheck, StrategyStats, ScoreBucketStats, PnlSummary,
+    ClosedPosition, ClosedPositionQuery, ClosedPositionGroupStats, ClosedPositionReport } from '../types';
 import logger from '../services/logger';
 import path from 'path';
+import { now } from '../utils/clock';
+
+// 实盘数据库
+export const DEFAULT_DB_PATH = './data/trading.db';
 
 export class TradingDatabase {
     private db: Database.Database;
 
-    constructor(dbPath: string = './data/trading.db') {
+    constructor(dbPath: string = DEFAULT_DB_PATH) {
         // 确保目录存在
         const dir = path.dirname(dbPath);
         if (!require('fs').existsSync(dir)) {
@@ -36,7 +41,15 @@ export class TradingDatabase {
                 last_updated INTEGER NOT NULL,
                 status TEXT NOT NULL DEFAULT 'ACTIVE',
                 created_at INTEGER DEFAULT (strftime('%s','now')),
-                lfg REAL DEFAULT 0
+                lfg REAL DEFAULT 0,
+                strategy TEXT NOT NULL DEFAULT 'default',
+                score REAL,
+                entry_snapshot TEXT,
+                latest_snapshot TEXT,
+                token_amount REAL,
+                token_remaining REAL,
+                sol_spent REAL,
+                simulated INTEGER NOT NULL DEFAULT 0
             );
         `);
 
@@ -59,10 +72,39 @@ export class TradingDatabase {
                 error TEXT,
                 retry_count INTEGER DEFAULT 0,
                 description TEXT,
+                activation_gain REAL,
+                max_gain REAL,
+                expires_at INTEGER,
+                tag TEXT,
+                on_complete TEXT,
+                group_id TEXT,
+                trigger_tree TEXT,
+                error_kind TEXT,
+                next_retry_at INTEGER,
+                sell_basis TEXT NOT NULL DEFAULT 'REMAINING',
+                executed_token_amount REAL,
+                received_sol_amount REAL,
                 FOREIGN KEY (position_id) REFERENCES positions (id) ON DELETE CASCADE
             );
         `);
 
+        // 订单状态变化记录 (只追加，不设外键，仓位删除后仍可还原时间线)
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS order_events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                order_id TEXT NOT NULL,
+                position_id TEXT NOT NULL,
+                order_type TEXT NOT NULL,
+                from_status TEXT,
+                to_status TEXT NOT NULL,
+                mc REAL,
+                error TEXT,
+                signature TEXT,
+                timestamp INTEGER NOT NULL,
+                entry_time INTEGER
+            );
+        `);
+
         // 创建交易历史表
         this.db.exec(`
             CREATE TABLE IF NOT EXISTS trade_history (
@@ -79,10 +121,93 @@ export class TradingDatabase {
                 executed_at INTEGER NOT NULL,
                 signature TEXT NOT NULL,
                 reason TEXT,
-                created_at INTEGER DEFAULT (strftime('%s','now'))
+                created_at INTEGER DEFAULT (strftime('%s','now')),
+                strategy TEXT NOT NULL DEFAULT 'default',
+                score REAL,
+                token_amount REAL,
+                sol_spent REAL NOT NULL DEFAULT 0,
+                sol_received REAL NOT NULL DEFAULT 0,
+                fee REAL NOT NULL DEFAULT 0,
+                realized_pnl REAL NOT NULL DEFAULT 0,
+                simulated INTEGER NOT NULL DEFAULT 0
+            );
+        `);
+
+        // 已平仓的仓位 (仓位删除前归档，订单以 JSON 保存)
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS closed_positions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                position_id TEXT NOT NULL,
+                address TEXT NOT NULL,
+                symbol TEXT NOT NULL,
+                strategy TEXT NOT NULL DEFAULT 'default',
+                score REAL,
+                entry_price REAL NOT NULL,
+                exit_price REAL NOT NULL,
+                highest_price REAL NOT NULL,
+                lowest_price REAL NOT NULL,
+                max_gain REAL NOT NULL,
+                sol_spent REAL NOT NULL DEFAULT 0,
+                sol_received REAL NOT NULL DEFAULT 0,
+                fees REAL NOT NULL DEFAULT 0,
+                realized_pnl REAL NOT NULL DEFAULT 0,
+                entry_time INTEGER NOT NULL,
+                closed_at INTEGER NOT NULL,
+                duration_ms INTEGER NOT NULL,
+                exit_reason TEXT NOT NULL,
+                orders TEXT NOT NULL,
+                simulated INTEGER NOT NULL DEFAULT 0
+            );
+        `);
+
+        // 差一两条规则未通过的代币
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS filter_near_misses (
+                address TEXT PRIMARY KEY,
+                symbol TEXT NOT NULL,
+                failed_rules TEXT NOT NULL,
+                checks TEXT NOT NULL,
+                first_seen INTEGER NOT NULL,
+                last_seen INTEGER NOT NULL,
+                seen_count INTEGER NOT NULL DEFAULT 1,
+                first_price REAL NOT NULL,
+                max_price REAL NOT NULL,
+                strategy TEXT NOT NULL DEFAULT 'default'
             );
         `);
 
+        // 旧数据库补充新增的列
+        this.ensureColumn('positions', 'strategy', "TEXT NOT NULL DEFAULT 'default'");
+        this.ensureColumn('trade_history', 'strategy', "TEXT NOT NULL DEFAULT 'default'");
+        this.ensureColumn('filter_near_misses', 'strategy', "TEXT NOT NULL DEFAULT 'default'");
+        this.ensureColumn('positions', 'score', 'REAL');
+        this.ensureColumn('trade_history', 'score', 'REAL');
+        this.ensureColumn('orders', 'activation_gain', 'REAL');
+        this.ensureColumn('orders', 'max_gain', 'REAL');
+        this.ensureColumn('orders', 'expires_at', 'INTEGER');
+        this.ensureColumn('orders', 'tag', 'TEXT');
+        this.ensureColumn('orders', 'on_complete', 'TEXT');
+        this.ensureColumn('orders', 'group_id', 'TEXT');
+        this.ensureColumn('positions', 'entry_snapshot', 'TEXT');
+        this.ensureColumn('positions', 'latest_snapshot', 'TEXT');
+        this.ensureColumn('orders', 'trigger_tree', 'TEXT');
+        this.ensureColumn('orders', 'error_kind', 'TEXT');
+        this.ensureColumn('orders', 'next_retry_at', 'INTEGER');
+        this.ensureColumn('positions', 'token_amount', 'REAL');
+        this.ensureColumn('positions', 'token_remaining', 'REAL');
+        this.ensureColumn('orders', 'sell_basis', "TEXT NOT NULL DEFAULT 'REMAINING'");
+        this.ensureColumn('orders', 'executed_token_amount', 'REAL');
+        this.ensureColumn('orders', 'received_sol_amount', 'REAL');
+        this.ensureColumn('positions', 'sol_spent', 'REAL');
+        this.ensureColumn('trade_history', 'token_amount', 'REAL');
+        this.ensureColumn('trade_history', 'sol_spent', 'REAL NOT NULL DEFAULT 0');
+        this.ensureColumn('trade_history', 'sol_received', 'REAL NOT NULL DEFAULT 0');
+        this.ensureColumn('trade_history', 'fee', 'REAL NOT NULL DEFAULT 0');
+        this.ensureColumn('trade_history', 'realized_pnl', 'REAL NOT NULL DEFAULT 0');
+        this.ensureColumn('positions', 'simulated', 'INTEGER NOT NULL DEFAULT 0');
+        this.ensureColumn('trade_history', 'simulated', 'INTEGER NOT NULL DEFAULT 0');
+        this.ensureColumn('order_events', 'entry_time', 'INTEGER');
+
         // 创建索引
         this.db.exec(`
             CREATE INDEX IF NOT EXISTS idx_positions_address ON positions(address);
@@ -90,21 +215,38 @@ export class TradingDatabase {
             CREATE INDEX IF NOT EXISTS idx_orders_position_id ON orders(position_id);
             CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
             CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+            CREATE INDEX IF NOT EXISTS idx_order_events_position_id ON order_events(position_id, timestamp);
             CREATE INDEX IF NOT EXISTS idx_trade_history_executed_at ON trade_history(executed_at);
             CREATE INDEX IF NOT EXISTS idx_trade_history_symbol ON trade_history(symbol);
+            CREATE INDEX IF NOT EXISTS idx_near_misses_last_seen ON filter_near_misses(last_seen);
+            CREATE INDEX IF NOT EXISTS idx_positions_strategy ON positions(strategy);
+            CREATE INDEX IF NOT EXISTS idx_closed_positions_closed_at ON closed_positions(closed_at);
+            CREATE INDEX IF NOT EXISTS idx_closed_positions_address ON closed_positions(address);
         `);
 
         logger.info('📊 SQLite database initialized');
     }
 
+    /**
+     * 列不存在时添加
+     */
+    private ensureColumn(table: string, column: string, definition: string): void {
+        const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+        if (columns.some(c => c.name === column)) return;
+
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        logger.info(`📊 Added column ${table}.${column}`);
+    }
+
     // ============= 仓位操作 =============
 
     insertPosition(position: Position): void {
         const stmt = this.db.prepare(`
             INSERT INTO positions (
                 id, address, symbol, entry_price, current_price, highest_price, lowest_price,
-                sol_invested, entry_time, last_updated, status, lfg
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                sol_invested, entry_time, last_updated, status, lfg, strategy, score,
+                entry_snapshot, latest_snapshot, token_amount, token_remaining, sol_spent, simulated
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         stmt.run(
@@ -119,10 +261,26 @@ export class TradingDatabase {
             position.entryTime,
             position.lastUpdated,
             position.status,
-            position.lfg
+            position.lfg,
+            position.strategy,
+            position.score ?? null,
+            position.entrySnapshot ? JSON.stringify(position.entrySnapshot) : null,
+            position.latestSnapshot ? JSON.stringify(position.latestSnapshot) : null,
+            position.tokenAmount ?? null,
+            position.tokenRemaining ?? null,
+            position.solSpent ?? null,
+            position.simulated ? 1 : 0
         );
     }
 
+    /**
+     * 更新仓位的成交信息: 代币数量、买入花费和是否模拟 (买入、卖出成交后)
+     */
+    updatePositionFill(position: Position): void {
+        const stmt = this.db.prepare('UPDATE positions SET token_amount = ?, token_remaining = ?, sol_spent = ?, simulated = ? WHERE id = ?');
+        stmt.run(position.tokenAmount ?? null, position.tokenRemaining ?? null, position.solSpent ?? null, position.simulated ? 1 : 0, position.id);
+    }
+
     updatePosition(position: Position): void {
         const stmt = this.db.prepare(`
         UPDATE positions SET 
@@ -130,7 +288,8 @@ export class TradingDatabase {
             highest_price = ?,
             lowest_price = ?,
             last_updated = ?,
-            lfg = ?
+            lfg = ?,
+            latest_snapshot = ?
         WHERE id = ?
     `);
 
@@ -140,6 +299,7 @@ export class TradingDatabase {
             position.lowestPrice,
             position.lastUpdated,
             position.lfg || 0,
+            position.latestSnapshot ? JSON.stringify(position.latestSnapshot) : null,
             position.id
         );
     }
@@ -149,28 +309,71 @@ export class TradingDatabase {
         const row = stmt.get(address) as any;
 
         if (!row) return null;
-
-        return {
-            id: row.id,
-            address: row.address,
-            symbol: row.symbol,
-            entryPrice: row.entry_price,
-            currentPrice: row.current_price,
-            highestPrice: row.highest_price,
-            lowestPrice: row.lowest_price,
-            solInvested: row.sol_invested,
-            entryTime: row.entry_time,
-            lastUpdated: row.last_updated,
-            status: row.status as PositionStatus,
-            lfg: row.lfg
-        };
+        return this.rowToPosition(row);
     }
 
     getActivePositions(): Position[] {
         const stmt = this.db.prepare("SELECT * FROM positions WHERE status = 'ACTIVE' ORDER BY entry_time DESC");
         const rows = stmt.all() as any[];
 
-        return rows.map(row => ({
+        return rows.map(row => this.rowToPosition(row));
+    }
+
+    /**
+     * 归档并删除仓位 (同一事务)
+     */
+    archivePosition(closed: ClosedPosition): void {
+        this.db.transaction(() => {
+            this.db.prepare(`
+                INSERT INTO closed_positions (
+                    position_id, address, symbol, strategy, score, entry_price, exit_price, highest_price, lowest_price,
+                    max_gain, sol_spent, sol_received, fees, realized_pnl, entry_time, closed_at, duration_ms, exit_reason, orders, simulated
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                closed.positionId,
+                closed.address,
+                closed.symbol,
+                closed.strategy,
+                closed.score ?? null,
+                closed.entryPrice,
+                closed.exitPrice,
+                closed.highestPrice,
+                closed.lowestPrice,
+                closed.maxGain,
+                closed.solSpent,
+                closed.solReceived,
+                closed.fees,
+                closed.realizedPnl,
+                closed.entryTime,
+                closed.closedAt,
+                closed.durationMs,
+                closed.exitReason,
+                JSON.stringify(closed.orders),
+                closed.simulated ? 1 : 0
+            );
+            this.deletePosition(closed.positionId);
+        })();
+    }
+
+    deletePosition(positionId: string): void {
+        // 由于外键约束，删除position时会自动删除相关orders
+        const stmt = this.db.prepare('DELETE FROM positions WHERE id = ?');
+        const result = stmt.run(positionId);
+        logger.info(`🗑️ Deleted position ${positionId}, affected rows: ${result.changes}`);
+    }
+
+    /**
+     * 活跃仓位数，传入策略名时只统计该策略
+     */
+    getPositionCount(strategy?: string): number {
+        const result = strategy === undefined
+            ? this.db.prepare("SELECT COUNT(*) as count FROM positions WHERE status = 'ACTIVE'").get() as any
+            : this.db.prepare("SELECT COUNT(*) as count FROM positions WHERE status = 'ACTIVE' AND strategy = ?").get(strategy) as any;
+        return result.count;
+    }
+
+    private rowToPosition(row: any): Position {
+        return {
             id: row.id,
             address: row.address,
             symbol: row.symbol,
@@ -182,21 +385,16 @@ export class TradingDatabase {
             entryTime: row.entry_time,
             lastUpdated: row.last_updated,
             status: row.status as PositionStatus,
-            lfg: row.lfg
-        }));
-    }
-
-    deletePosition(positionId: string): void {
-        // 由于外键约束，删除position时会自动删除相关orders
-        const stmt = this.db.prepare('DELETE FROM positions WHERE id = ?');
-        const result = stmt.run(positionId);
-        logger.info(`🗑️ Deleted position ${positionId}, affected rows: ${result.changes}`);
-    }
-
-    getPositionCount(): number {
-        const stmt = this.db.prepare("SELECT COUNT(*) as count FROM positions WHERE status = 'ACTIVE'");
-        const result = stmt.get() as any;
-        return result.count;
+            lfg: row.lfg,
+            strategy: row.strategy,
+            score: row.score ?? undefined,
+            entrySnapshot: row.entry_snapshot ? JSON.parse(row.entry_snapshot) : undefined,
+            latestSnapshot: row.latest_snapshot ? JSON.parse(row.latest_snapshot) : undefined,
+            tokenAmount: row.token_amount ?? undefined,
+            tokenRemaining: row.token_remaining ?? undefined,
+            solSpent: row.sol_spent ?? undefined,
+            simulated: row.simulated === 1
+        };
     }
 
     // ============= 订单操作 =============
@@ -206,8 +404,9 @@ export class TradingDatabase {
             INSERT INTO orders (
                 id, position_id, type, status, sell_ratio,
                 trigger_type, trigger_condition, trigger_value, trigger_description,
-                created_at, description, retry_count
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                created_at, description, retry_count, activation_gain, max_gain, expires_at,
+                tag, on_complete, group_id, trigger_tree, sell_basis
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         stmt.run(
@@ -222,11 +421,21 @@ export class TradingDatabase {
             order.triggerDescription,
             order.createdAt,
             order.description,
-            order.retryCount
+            order.retryCount,
+            order.activationGain ?? null,
+            order.maxGain ?? null,
+            order.expiresAt ?? null,
+            order.tag ?? null,
+            order.onComplete ? JSON.stringify(order.onComplete) : null,
+            order.groupId ?? null,
+            order.triggerTree ? JSON.stringify(order.triggerTree) : null,
+            order.sellBasis
         );
+        this.insertOrderEvent(order, null);
     }
 
     updateOrder(order: Order): void {
+        const previous = this.db.prepare('SELECT status FROM orders WHERE id = ?').get(order.id) as any;
         const stmt = this.db.prepare(`
             UPDATE orders SET 
                 status = ?,
@@ -234,7 +443,11 @@ export class TradingDatabase {
                 executed_at = ?,
                 signature = ?,
                 error = ?,
-                retry_count = ?
+                error_kind = ?,
+                retry_count = ?,
+                next_retry_at = ?,
+                executed_token_amount = ?,
+                received_sol_amount = ?
             WHERE id = ?
         `);
 
@@ -244,7 +457,60 @@ export class TradingDatabase {
             order.executedAt || null,
             order.signature || null,
             order.error || null,
+            order.errorKind ?? null,
             order.retryCount,
+            order.nextRetryAt ?? null,
+            order.executedTokenAmount ?? null,
+            order.receivedSolAmount ?? null,
+            order.id
+        );
+        if (previous) this.insertOrderEvent(order, previous.status);
+    }
+
+    /**
+     * 保存已成交的订单，并在同一事务中取消同仓位 OCO 组内的其他待执行订单，返回取消数量
+     */
+    completeOrder(order: Order): number {
+        return this.db.transaction(() => {
+            this.updateOrder(order);
+            if (!order.groupId) return 0;
+
+            return this.cancelPendingOrders('position_id = ? AND group_id = ? AND id != ?', order.positionId, order.groupId, order.id);
+        })();
+    }
+
+    /**
+     * 修改待执行订单的触发条件和卖出比例 (热重载迁移订单)
+     */
+    updateOrderTrigger(order: Order): void {
+        const stmt = this.db.prepare(`
+            UPDATE orders SET
+                sell_ratio = ?,
+                sell_basis = ?,
+                trigger_value = ?,
+                trigger_description = ?,
+                activation_gain = ?,
+                max_gain = ?,
+                expires_at = ?,
+                on_complete = ?,
+                group_id = ?,
+                trigger_tree = ?,
+                description = ?
+            WHERE id = ? AND status = 'PENDING'
+        `);
+
+        stmt.run(
+            order.sellRatio,
+            order.sellBasis,
+            order.triggerValue,
+            order.triggerDescription,
+            order.activationGain ?? null,
+            order.maxGain ?? null,
+            order.expiresAt ?? null,
+            order.onComplete ? JSON.stringify(order.onComplete) : null,
+            order.groupId ?? null,
+            order.triggerTree ? JSON.stringify(order.triggerTree) : null,
+            order.description,
             order.id
         );
     }
@@ -271,16 +537,106 @@ export class TradingDatabase {
         return rows.map(row => this.rowToOrder(row));
     }
 
+    /**
+     * 到了重试时间的失败订单
+     */
+    getDueRetryOrders(timestamp: number): Order[] {
+        const stmt = this.db.prepare(`
+            SELECT * FROM orders
+            WHERE status = 'FAILED' AND next_retry_at IS NOT NULL AND next_retry_at <= ?
+            ORDER BY next_retry_at ASC
+        `);
+        return (stmt.all(timestamp) as any[]).map(row => this.rowToOrder(row));
+    }
+
     cancelOrder(orderId: string): boolean {
-        const stmt = this.db.prepare("UPDATE orders SET status = 'CANCELLED' WHERE id = ? AND status = 'PENDING'");
-        const result = stmt.run(orderId);
-        return result.changes > 0;
+        return this.cancelPendingOrders('id = ?', orderId) > 0;
+    }
+
+    /**
+     * 取消仓位中指定标签的待执行订单
+     */
+    cancelOrdersByTag(positionId: string, tag: string): number {
+        return this.cancelPendingOrders('position_id = ? AND tag = ?', positionId, tag);
     }
 
     cancelPositionOrders(positionId: string): number {
-        const stmt = this.db.prepare("UPDATE orders SET status = 'CANCELLED' WHERE position_id = ? AND status = 'PENDING'");
-        const result = stmt.run(positionId);
-        return result.changes;
+        return this.cancelPendingOrders('position_id = ?', positionId);
+    }
+
+    /**
+     * 取消满足条件的待执行订单并逐条记录事件
+     * 等待重试的失败订单同样取消，否则 OCO / 联动取消后仍会被重新挂出
+     */
+    private cancelPendingOrders(where: string, ...params: unknown[]): number {
+        return this.db.transaction(() => {
+            const rows = this.db.prepare(`
+                SELECT * FROM orders
+                WHERE ${where} AND (status = 'PENDING' OR (status = 'FAILED' AND next_retry_at IS NOT NULL))
+            `).all(...params) as any[];
+            const stmt = this.db.prepare("UPDATE orders SET status = 'CANCELLED', next_retry_at = NULL WHERE id = ?");
+            for (const row of rows) {
+                stmt.run(row.id);
+                this.insertOrderEvent({ ...this.rowToOrder(row), status: OrderStatus.CANCELLED, nextRetryAt: undefined }, row.status);
+            }
+            return rows.length;
+        })();
+    }
+
+    // ============= 订单事件 =============
+
+    /**
+     * 追加一条状态变化，市值取仓位当前市值，开仓时间区分同一代币的多次开仓
+     */
+    private insertOrderEvent(order: Order, fromStatus: OrderStatus | null): void {
+        const position = this.db.prepare('SELECT current_price, entry_time FROM positions WHERE id = ?').get(order.positionId) as any;
+        this.db.prepare(`
+            INSERT INTO order_events (
+                order_id, position_id, order_type, from_status, to_status, mc, error, signature, timestamp, entry_time
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            order.id,
+            order.positionId,
+            order.type,
+            fromStatus,
+            order.status,
+            position?.current_price ?? null,
+            order.status === OrderStatus.FAILED ? order.error ?? null : null,
+            order.signature ?? null,
+            now(),
+            position?.entry_time ?? null
+        );
+    }
+
+    /**
+     * 一次开仓所有订单的状态变化，按时间排序 (仓位已删除也可查询)
+     * @param entryTime 开仓时间，不传时取该代币最近一次开仓
+     */
+    getOrderEvents(positionId: string, entryTime?: number): OrderEvent[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM order_events
+            WHERE position_id = ? AND entry_time IS ?
+            ORDER BY timestamp ASC, id ASC
+        `).all(positionId, entryTime ?? this.getLatestEventEntryTime(positionId)) as any[];
+
+        return rows.map(row => ({
+            id: row.id,
+            orderId: row.order_id,
+            positionId: row.position_id,
+            orderType: row.order_type,
+            fromStatus: row.from_status,
+            toStatus: row.to_status,
+            mc: row.mc,
+            error: row.error ?? undefined,
+            signature: row.signature ?? undefined,
+            timestamp: row.timestamp,
+            entryTime: row.entry_time
+        }));
+    }
+
+    private getLatestEventEntryTime(positionId: string): number | null {
+        const row = this.db.prepare('SELECT MAX(entry_time) AS entry_time FROM order_events WHERE position_id = ?').get(positionId) as any;
+        return row?.entry_time ?? null;
     }
 
     deletePositionOrders(positionId: string): void {
@@ -295,16 +651,28 @@ export class TradingDatabase {
             type: row.type,
             status: row.status as OrderStatus,
             sellRatio: row.sell_ratio,
+            sellBasis: row.sell_basis ?? 'REMAINING',
             triggerType: row.trigger_type,
             triggerCondition: row.trigger_condition,
             triggerValue: row.trigger_value,
             triggerDescription: row.trigger_description,
+            activationGain: row.activation_gain ?? undefined,
+            maxGain: row.max_gain ?? undefined,
+            expiresAt: row.expires_at ?? undefined,
+            tag: row.tag ?? undefined,
+            onComplete: row.on_complete ? JSON.parse(row.on_complete) : undefined,
+            groupId: row.group_id ?? undefined,
+            triggerTree: row.trigger_tree ? JSON.parse(row.trigger_tree) : undefined,
             createdAt: row.created_at,
             triggeredAt: row.triggered_at,
             executedAt: row.executed_at,
             signature: row.signature,
+            executedTokenAmount: row.executed_token_amount ?? undefined,
+            receivedSolAmount: row.received_sol_amount ?? undefined,
             error: row.error,
+            errorKind: row.error_kind ?? undefined,
             retryCount: row.retry_count,
+            nextRetryAt: row.next_retry_at ?? undefined,
             description: row.description
         };
     }
@@ -315,8 +683,9 @@ export class TradingDatabase {
         const stmt = this.db.prepare(`
             INSERT INTO trade_history (
                 position_id, order_id, symbol, address, type, sell_ratio,
-                entry_price, exit_price, gain_percent, executed_at, signature, reason
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                entry_price, exit_price, gain_percent, executed_at, signature, reason, strategy, score,
+                token_amount, sol_spent, sol_received, fee, realized_pnl, simulated
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         stmt.run(
@@ -331,7 +700,15 @@ export class TradingDatabase {
             trade.gainPercent,
             trade.executedAt,
             trade.signature,
-            trade.reason || null
+            trade.reason || null,
+            trade.strategy || 'default',
+            trade.score ?? null,
+            trade.tokenAmount ?? null,
+            trade.solSpent,
+            trade.solReceived,
+            trade.fee,
+            trade.realizedPnl,
+            trade.simulated ? 1 : 0
         );
     }
 
@@ -353,12 +730,179 @@ export class TradingDatabase {
             sellRatio: row.sell_ratio,
             entryPrice: row.entry_price,
             exitPrice: row.exit_price,
-            tokenAmountSold: 0, // 不存储这个字段，给默认值
-            solReceived: 0,     // 不存储这个字段，给默认值
             gainPercent: row.gain_percent,
             executedAt: row.executed_at,
             signature: row.signature,
-            reason: row.reason
+            reason: row.reason,
+            strategy: row.strategy,
+            score: row.score ?? undefined,
+            tokenAmount: row.token_amount ?? undefined,
+            solSpent: row.sol_spent,
+            solReceived: row.sol_received,
+            fee: row.fee,
+            realizedPnl: row.realized_pnl,
+            simulated: row.simulated === 1
+        }));
+    }
+
+    /**
+     * 模拟交易累计的 SOL 净收支 (到手 - 花费)，用于恢复虚拟余额
+     */
+    getSimulatedNetSol(): number {
+        const row = this.db.prepare('SELECT SUM(sol_received - sol_spent) as net FROM trade_history WHERE simulated = 1').get() as any;
+        return row.net || 0;
+    }
+
+    /**
+     * 汇总交易历史的SOL收支，传入仓位时只统计该仓位 since (秒) 之后的记录
+     * (同一代币平仓后再开仓仍使用同一个仓位 id)
+     */
+    getTradeTotals(positionId?: string, since: number = 0): Omit<PnlSummary, 'unrealizedPnl'> {
+        const row = this.db.prepare(`
+            SELECT SUM(sol_spent) as spent, SUM(sol_received) as received, SUM(fee) as fees, SUM(realized_pnl) as pnl
+            FROM trade_history
+            WHERE executed_at >= ? ${positionId === undefined ? '' : 'AND position_id = ?'}
+        `).get(...(positionId === undefined ? [since] : [since, positionId])) as any;
+
+        return {
+            solSpent: row.spent || 0,
+            solReceived: row.received || 0,
+            fees: row.fees || 0,
+            realizedPnl: row.pnl || 0
+        };
+    }
+
+    // ============= 已平仓 =============
+
+    /**
+     * 按条件查询已平仓仓位，最近平仓的在前
+     */
+    getClosedPositions(query: ClosedPositionQuery = {}): ClosedPosition[] {
+        const { where, params } = this.closedPositionFilter(query);
+        const rows = this.db.prepare(`
+            SELECT * FROM closed_positions ${where} ORDER BY closed_at DESC LIMIT ?
+        `).all(...params, query.limit ?? 100) as any[];
+
+        return rows.map(row => ({
+            id: row.id,
+            positionId: row.position_id,
+            address: row.address,
+            symbol: row.symbol,
+            strategy: row.strategy,
+            score: row.score ?? undefined,
+            entryPrice: row.entry_price,
+            exitPrice: row.exit_price,
+            highestPrice: row.highest_price,
+            lowestPrice: row.lowest_price,
+            maxGain: row.max_gain,
+            solSpent: row.sol_spent,
+            solReceived: row.sol_received,
+            fees: row.fees,
+            realizedPnl: row.realized_pnl,
+            entryTime: row.entry_time,
+            closedAt: row.closed_at,
+            durationMs: row.duration_ms,
+            exitReason: row.exit_reason,
+            orders: JSON.parse(row.orders),
+            simulated: row.simulated === 1
+        }));
+    }
+
+    /**
+     * 已平仓仓位汇总: 全部 / 按策略 / 按平仓原因 (limit 不生效)
+     */
+    getClosedPositionReport(query: ClosedPositionQuery = {}): ClosedPositionReport {
+        const { where, params } = this.closedPositionFilter(query);
+        const group = (column: string | null): ClosedPositionGroupStats[] => {
+            const rows = this.db.prepare(`
+                SELECT ${column ?? "'all'"} as grp, COUNT(*) as count,
+                    SUM(CASE WHEN realized_pnl > 0 THEN 1 ELSE 0 END) as wins,
+                    SUM(realized_pnl) as pnl, AVG(max_gain) as max_gain, AVG(duration_ms) as duration
+                FROM closed_positions ${where}
+                ${column ? `GROUP BY ${column} ORDER BY pnl DESC` : ''}
+            `).all(...params) as any[];
+
+            return rows.filter(row => row.count > 0).map(row => ({
+                group: row.grp,
+                count: row.count,
+                wins: row.wins || 0,
+                winRate: row.wins / row.count * 100,
+                realizedPnl: row.pnl || 0,
+                averageMaxGain: row.max_gain || 0,
+                averageDurationMs: row.duration || 0
+            }));
+        };
+
+        return {
+            total: group(null)[0] || { group: 'all', count: 0, wins: 0, winRate: 0, realizedPnl: 0, averageMaxGain: 0, averageDurationMs: 0 },
+            byStrategy: group('strategy'),
+            byExitReason: group('exit_reason')
+        };
+    }
+
+    private closedPositionFilter(query: ClosedPositionQuery): { where: string; params: unknown[] } {
+        const filters: [string, unknown][] = [
+            ['closed_at >= ?', query.since],
+            ['closed_at < ?', query.until],
+            ['strategy = ?', query.strategy],
+            ['exit_reason = ?', query.exitReason],
+            ['simulated = ?', query.simulated === undefined ? undefined : query.simulated ? 1 : 0]
+        ];
+        const active = filters.filter(([, value]) => value !== undefined);
+        return {
+            where: active.length > 0 ? `WHERE ${active.map(([condition]) => condition).join(' AND ')}` : '',
+            params: active.map(([, value]) => value)
+        };
+    }
+
+    // ============= 筛选未通过记录 =============
+
+    /**
+     * 记录差一两条规则的代币
+     * 同一代币只保留一行，保留首次记录时的判断结果，以便和之后的最高市值对比
+     */
+    upsertNearMiss(address: string, symbol: string, strategy: string, price: number, failedRules: string[], checks: FilterCheck[], timestamp: number): void {
+        const stmt = this.db.prepare(`
+            INSERT INTO filter_near_misses (
+                address, symbol, strategy, failed_rules, checks, first_seen, last_seen, first_price, max_price
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(address) DO UPDATE SET
+                last_seen = excluded.last_seen,
+                seen_count = seen_count + 1,
+                max_price = MAX(max_price, excluded.max_price)
+        `);
+
+        stmt.run(address, symbol, strategy, failedRules.join(','), JSON.stringify(checks), timestamp, timestamp, price, price);
+    }
+
+    /**
+     * 更新已记录代币之后的最高市值和最后出现时间
+     */
+    updateNearMissPrice(address: string, price: number, timestamp: number): void {
+        const stmt = this.db.prepare('UPDATE filter_near_misses SET max_price = MAX(max_price, ?), last_seen = ? WHERE address = ?');
+        stmt.run(price, timestamp, address);
+    }
+
+    getNearMissAddresses(): string[] {
+        const rows = this.db.prepare('SELECT address FROM filter_near_misses').all() as any[];
+        return rows.map(row => row.address);
+    }
+
+    getNearMisses(since: number): NearMissRecord[] {
+        const stmt = this.db.prepare('SELECT * FROM filter_near_misses WHERE last_seen >= ? ORDER BY last_seen DESC');
+        const rows = stmt.all(since) as any[];
+
+        return rows.map(row => ({
+            address: row.address,
+            symbol: row.symbol,
+            strategy: row.strategy,
+            failedRules: row.failed_rules ? row.failed_rules.split(',') : [],
+            checks: JSON.parse(row.checks),
+            firstSeen: row.first_seen,
+            lastSeen: row.last_seen,
+            seenCount: row.seen_count,
+            firstPrice: row.first_price,
+            maxPrice: row.max_price
         }));
     }
 
@@ -370,9 +914,8 @@ export class TradingDatabase {
         completedTradesToday: number;
         totalSolInvested: number;
         averageGain: number;
-    } {
-        const now = Date.now();
-        const oneDayAgo = now - 24 * 60 * 60 * 1000;
+    } & Omit<PnlSummary, 'unrealizedPnl'> {
+        const oneDayAgo = now() - 24 * 60 * 60 * 1000;
 
         // 活跃仓位数
         const activePositions = this.db.prepare("SELECT COUNT(*) as count FROM positions WHERE status = 'ACTIVE'").get() as any;
@@ -380,8 +923,8 @@ export class TradingDatabase {
         // 待执行订单数
         const pendingOrders = this.db.prepare("SELECT COUNT(*) as count FROM orders WHERE status = 'PENDING'").get() as any;
 
-        // 今日完成交易数
-        const completedToday = this.db.prepare("SELECT COUNT(*) as count FROM trade_history WHERE executed_at > ?").get(Math.floor(oneDayAgo / 1000)) as any;
+        // 今日完成交易数 (卖出)
+        const completedToday = this.db.prepare("SELECT COUNT(*) as count FROM trade_history WHERE executed_at > ? AND type != 'MARKET_BUY'").get(Math.floor(oneDayAgo / 1000)) as any;
 
         // 总投资SOL
         const totalInvested = this.db.prepare("SELECT SUM(sol_invested) as total FROM positions WHERE status = 'ACTIVE'").get() as any;
@@ -397,8 +940,73 @@ export class TradingDatabase {
             pendingOrders: pendingOrders.count,
             completedTradesToday: completedToday.count,
             totalSolInvested: totalInvested.total || 0,
-            averageGain: avgGain.avg_gain || 0
+            averageGain: avgGain.avg_gain || 0,
+            ...this.getTradeTotals()
+        };
+    }
+
+    /**
+     * 按策略统计: 活跃仓位 + 交易历史
+     */
+    getStrategyStats(): StrategyStats[] {
+        const positions = this.db.prepare(`
+            SELECT strategy, COUNT(*) as count, SUM(sol_invested) as total,
+                AVG((current_price - entry_price) / entry_price * 100) as avg_gain
+            FROM positions WHERE status = 'ACTIVE' GROUP BY strategy
+        `).all() as any[];
+        const trades = this.db.prepare(`
+            SELECT strategy, COUNT(*) as count, SUM(CASE WHEN realized_pnl > 0 THEN 1 ELSE 0 END) as wins,
+                SUM(realized_pnl) as pnl
+            FROM trade_history WHERE type != 'MARKET_BUY' GROUP BY strategy
+        `).all() as any[];
+
+        const stats = new Map<string, StrategyStats>();
+        const entry = (strategy: string) => {
+            if (!stats.has(strategy)) {
+                stats.set(strategy, { strategy, activePositions: 0, solInvested: 0, averageGain: 0, trades: 0, winningTrades: 0, realizedPnl: 0 });
+            }
+            return stats.get(strategy)!;
         };
+        for (const row of positions) {
+            const item = entry(row.strategy);
+            item.activePositions = row.count;
+            item.solInvested = row.total || 0;
+            item.averageGain = row.avg_gain || 0;
+        }
+        for (const row of trades) {
+            const item = entry(row.strategy);
+            item.trades = row.count;
+            item.winningTrades = row.wins || 0;
+            item.realizedPnl = row.pnl || 0;
+        }
+        return [...stats.values()];
+    }
+
+    /**
+     * 按开仓评分分组统计已成交卖单，用于检验高分是否表现更好
+     */
+    getScorePerformance(bucketSize: number = 10): ScoreBucketStats[] {
+        const rows = this.db.prepare(`
+            SELECT CAST(score / ? AS INTEGER) * ? as bucket,
+                COUNT(DISTINCT position_id) as positions,
+                COUNT(*) as trades,
+                SUM(gain_percent * sell_ratio) / SUM(sell_ratio) as avg_gain,
+                SUM(CASE WHEN realized_pnl > 0 THEN 1 ELSE 0 END) as wins,
+                SUM(realized_pnl) as pnl
+            FROM trade_history
+            WHERE score IS NOT NULL AND type != 'MARKET_BUY'
+            GROUP BY bucket
+            ORDER BY bucket
+        `).all(bucketSize, bucketSize) as any[];
+
+        return rows.map(row => ({
+            bucket: row.bucket,
+            positions: row.positions,
+            trades: row.trades,
+            averageGain: row.avg_gain || 0,
+            winRate: row.trades > 0 ? row.wins / row.trades * 100 : 0,
+            realizedPnl: row.pnl || 0
+        }));
     }
 
     // ============= 数据库维护 =============
@@ -407,10 +1015,13 @@ export class TradingDatabase {
     cleanOldData(): void {
         const thirtyDaysAgo = Math.floor((Date.now() - 30 * 24 * 60 * 60 * 1000) / 1000);
 
-        const stmt = this.db.prepare('DELETE FROM trade_history WHERE executed_at < ?');
+        // 模拟交易记录用于恢复虚拟 SOL 余额，不清理
+        const stmt = this.db.prepare('DELETE FROM trade_history WHERE executed_at < ? AND simulated = 0');
         const result = stmt.run(thirtyDaysAgo);
 
-        logger.info(`🧹 Cleaned ${result.changes} old trade history records`);
+        const nearMisses = this.db.prepare('DELETE FROM filter_near_misses WHERE last_seen < ?').run(thirtyDaysAgo * 1000);
+
+        logger.info(`🧹 Cleaned ${result.changes} old trade history records, ${nearMisses.changes} near misses`);
     }
 
     // 备份数据库
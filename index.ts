@@ -1,13 +1,19 @@
 import { Monitor } from './core/monitor';
+import { setupBot } from './services/telegram/bot';
 import logger from './services/logger';
+import { printConfig, validateConfig } from './config';
 
+printConfig();
+if (!validateConfig()) {
+    process.exit(1);
+}
 
 const monitor = new Monitor();
 
 // 优雅退出
 process.on('SIGINT', async () => {
     logger.info('Shutting down...');
-    monitor.stop();
+    await monitor.stop();
     process.exit(0);
 });
 
@@ -17,6 +23,9 @@ process.on('unhandledRejection', (error) => {
 });
 
 // 启动
+setupBot().catch(error => {
+    logger.error('Telegram bot failed:', error);
+});
 monitor.start().catch(error => {
     logger.error('Failed to start:', error);
     process.exit(1);
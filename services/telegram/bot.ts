@@ -30,5 +30,4 @@ const setupBot = async () => {
         },
     });
 };
-setupBot()
 export { setupBot };
\ No newline at end of file
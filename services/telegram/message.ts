@@ -1,7 +1,13 @@
-import { INC_TG_CHAT_ID, INC_TG_MESSAGE_THREAD_ID, SL_TG_CHAT_ID, SL_TG_MESSAGE_THREAD_ID, S_TG_CHAT_ID, S_TG_MESSAGE_THREAD_ID, TP_TG_CHAT_ID, TP_TG_MESSAGE_THREAD_ID, TRADE_TG_CHAT_ID, TRADE_TG_MESSAGE_THREAD_ID } from "./tgConfig";
+import { ALERT_TG_CHAT_ID, ALERT_TG_MESSAGE_THREAD_ID, INC_TG_CHAT_ID, INC_TG_MESSAGE_THREAD_ID, SL_TG_CHAT_ID, SL_TG_MESSAGE_THREAD_ID, S_TG_CHAT_ID, S_TG_MESSAGE_THREAD_ID, TP_TG_CHAT_ID, TP_TG_MESSAGE_THREAD_ID, TRADE_TG_CHAT_ID, TRADE_TG_MESSAGE_THREAD_ID } from "./tgConfig";
 import { bot } from "./bot";
-type TgChannelType = "Signal" | "Inc" | "Trade" | "StopLoss" | "TakeProfit";
+type TgChannelType = "Signal" | "Inc" | "Trade" | "StopLoss" | "TakeProfit" | "Alert";
+// 回放/回测时关闭推送
+let telegramEnabled = true;
+function setTelegramEnabled(enabled: boolean) {
+    telegramEnabled = enabled;
+}
 async function sendToTelegram(message: string, type: TgChannelType) {
+    if (!telegramEnabled) return;
     let chatId: string, threadId: number;
     switch (type) {
         case "Inc":
@@ -24,6 +30,10 @@ async function sendToTelegram(message: string, type: TgChannelType) {
             chatId = TP_TG_CHAT_ID;
             threadId = TP_TG_MESSAGE_THREAD_ID;
             break;
+        case "Alert":
+            chatId = ALERT_TG_CHAT_ID;
+            threadId = ALERT_TG_MESSAGE_THREAD_ID;
+            break;
         default:
             break;
     }
@@ -36,4 +46,4 @@ async function sendToTelegram(message: string, type: TgChannelType) {
     }
 }
 
-export { sendToTelegram };
\ No newline at end of file
+export { sendToTelegram, setTelegramEnabled };
\ No newline at end of file
@@ -13,4 +13,7 @@ export const SL_TG_CHAT_ID = "-1002840030629";
 export const SL_TG_MESSAGE_THREAD_ID = 783;
 // 获利
 export const TP_TG_CHAT_ID = "-1002840030629";
-export const TP_TG_MESSAGE_THREAD_ID = 1314;
\ No newline at end of file
+export const TP_TG_MESSAGE_THREAD_ID = 1314;
+// 系统告警 (断流/恢复等)，默认发到交易频道
+export const ALERT_TG_CHAT_ID = TRADE_TG_CHAT_ID;
+export const ALERT_TG_MESSAGE_THREAD_ID = TRADE_TG_MESSAGE_THREAD_ID;
\ No newline at end of file
@@ -1,12 +1,13 @@
 import { createJupiterApiClient, QuoteGetRequest } from "@jup-ag/api";
-import { VersionedTransaction, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
-import { CONFIG } from '../config';
-import { connection, wallet } from "../constants";
+import { VersionedTransaction, ConfirmedTransactionMeta, TokenBalance, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { connection, getWallet } from "../constants";
 import logger from "../services/logger";
 import { sendToTelegram } from "../services/telegram/message";
 import { getTokenBalance } from "../utils/getTokrnBalance";
-import { Position, OrderExecutionResult } from "../types";
-import { formatMarketCap } from "../utils/format";
+import { transactionSenderAndConfirmationWaiter } from "../utils/tSender";
+import { Position, Order, OrderExecutionResult, TradeExecutor } from "../types";
+import { formatMarketCap, wait } from "../utils/format";
+import { getSellAmount } from "./sellAmount";
 
 export interface SwapParams {
     inputMint: string;
@@ -15,6 +16,15 @@ export interface SwapParams {
     slippageBps: number;
 }
 
+export interface SwapResult {
+    signature: string;
+    tokenDelta: number;         // 钱包代币余额变化 (最小单位，买入为正)
+    solDelta: number;           // 钱包 SOL 余额变化 (SOL，含网络费，卖出为正)
+    fee?: number;               // 网络费+优先费 (SOL)，取不到交易详情时为空
+}
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
 const jupiterQuoteApi = createJupiterApiClient();
 
 export async function executeJupiterSwap({
@@ -22,7 +32,7 @@ export async function executeJupiterSwap({
     outputMint,
     amount,
     slippageBps,
-}: SwapParams): Promise<string | null> {
+}: SwapParams): Promise<SwapResult | null> {
     try {
         // Get quote
         const quoteParams: QuoteGetRequest = {
@@ -31,16 +41,21 @@ export async function executeJupiterSwap({
             amount: amount,
             slippageBps,
         };
-        const quote = await jupiterQuoteApi.quoteGet(quoteParams);
+        const mint = inputMint === SOL_MINT ? outputMint : inputMint;
+        // 交易前的钱包余额: 确认后取不到交易详情时用余额差计算成交数量
+        const [quote, balancesBefore] = await Promise.all([
+            withErrorPrefix('Unable to get quote', () => jupiterQuoteApi.quoteGet(quoteParams)),
+            readWalletBalances(mint)
+        ]);
         if (!quote) {
             throw new Error("Unable to get quote");
         }
 
         // Get swap transaction
-        const swapResponse = await jupiterQuoteApi.swapPost({
+        const swapResponse = await withErrorPrefix('Swap request failed', () => jupiterQuoteApi.swapPost({
             swapRequest: {
                 quoteResponse: quote,
-                userPublicKey: wallet.publicKey.toBase58(),
+                userPublicKey: getWallet().publicKey.toBase58(),
                 dynamicComputeUnitLimit: true,
                 prioritizationFeeLamports: {
                     priorityLevelWithMaxLamports: {
@@ -49,7 +64,7 @@ export async function executeJupiterSwap({
                     },
                 },
             },
-        });
+        }));
 
         // Deserialize transaction
         const swapTransactionBuf = Buffer.from(
@@ -60,22 +75,114 @@ export async function executeJupiterSwap({
         const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
 
         // Sign transaction
-        transaction.sign([wallet.payer]);
+        transaction.sign([getWallet().payer]);
 
-        // Execute transaction
+        // Execute transaction: 发送后每 2 秒重发，直到确认或 blockhash 过期
         const serializedTransaction = Buffer.from(transaction.serialize());
-        const signature = await connection.sendRawTransaction(
+        logger.info(`📡 Sending transaction, waiting for confirmation...`);
+        const confirmation = await withErrorPrefix('RPC send/confirm failed', () => transactionSenderAndConfirmationWaiter({
+            connection,
             serializedTransaction,
-            { skipPreflight: true }
-        );
-        logger.info(`📡 Transaction sent: ${signature}, waiting for confirmation...`);
-        return signature
+            blockhashWithExpiryBlockHeight: {
+                blockhash: transaction.message.recentBlockhash,
+                lastValidBlockHeight: swapResponse.lastValidBlockHeight,
+            },
+        }));
+        if (!confirmation) {
+            throw new Error("Transaction not confirmed before block height exceeded");
+        }
+
+        const { signature, response } = confirmation;
+        const err = confirmation.err ?? response?.meta?.err;
+        if (err) {
+            throw new Error(`Transaction ${signature} failed on-chain: ${JSON.stringify(err)}`);
+        }
+
+        logger.info(`📡 Transaction confirmed: ${signature}`);
+        if (response?.meta) {
+            return { signature, ...parseBalanceChanges(response.meta, mint) };
+        }
+
+        // 已确认且无错误但取不到交易详情: 不能按普通失败重试 (会重复买卖)，改用钱包余额差
+        logger.warn(`⚠️ Transaction ${signature} confirmed but details unavailable, using wallet balance diff`);
+        const balancesAfter = balancesBefore ? await readWalletBalancesWithRetry(mint) : null;
+        if (!balancesBefore || !balancesAfter) {
+            // 成交数量未知，按不可重试的失败处理并告警，由人工核对
+            throw new Error(`Transaction ${signature} confirmed but fill amounts unknown`);
+        }
+        return {
+            signature,
+            tokenDelta: balancesAfter.token - balancesBefore.token,
+            solDelta: balancesAfter.sol - balancesBefore.sol
+        };
     } catch (error) {
+        // 抛给调用方，错误信息用于失败分类和重试
         logger.error("Error executing swap:", error);
+        throw error;
+    }
+}
+
+/**
+ * 从交易前后余额计算钱包的代币和 SOL 变化
+ */
+function parseBalanceChanges(meta: ConfirmedTransactionMeta, mint: string): Omit<SwapResult, 'signature'> {
+    const owner = getWallet().publicKey.toBase58();
+    const tokenBalance = (balances: TokenBalance[] | null | undefined) => Number(
+        balances?.find(b => b.mint === mint && b.owner === owner)?.uiTokenAmount.amount ?? 0
+    );
+
+    return {
+        tokenDelta: tokenBalance(meta.postTokenBalances) - tokenBalance(meta.preTokenBalances),
+        // 手续费由钱包支付，钱包是第一个账户
+        solDelta: (meta.postBalances[0] - meta.preBalances[0]) / LAMPORTS_PER_SOL,
+        fee: meta.fee / LAMPORTS_PER_SOL
+    };
+}
+
+/**
+ * 读取钱包的代币 (最小单位) 和 SOL 余额，读取失败返回 null
+ */
+async function readWalletBalances(mint: string): Promise<{ token: number; sol: number } | null> {
+    try {
+        const owner = getWallet().publicKey;
+        const [tokenAccounts, lamports] = await Promise.all([
+            connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) }, 'confirmed'),
+            connection.getBalance(owner, 'confirmed')
+        ]);
+        const token = tokenAccounts.value.reduce(
+            (sum, account) => sum + Number(account.account.data.parsed.info.tokenAmount.amount), 0
+        );
+        return { token, sol: lamports / LAMPORTS_PER_SOL };
+    } catch (error) {
+        logger.warn(`⚠️ Failed to read wallet balances for ${mint}: ${error instanceof Error ? error.message : String(error)}`);
         return null;
     }
 }
 
+/**
+ * 读取成交后的钱包余额，RPC 暂时失败时重试
+ */
+async function readWalletBalancesWithRetry(mint: string, attempts = 3): Promise<{ token: number; sol: number } | null> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        const balances = await readWalletBalances(mint);
+        if (balances) return balances;
+        if (attempt < attempts) await wait(1000);
+    }
+    return null;
+}
+
+/**
+ * 给错误信息加上所在步骤，便于区分报价失败和 RPC 错误
+ */
+async function withErrorPrefix<T>(prefix: string, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn();
+    } catch (error) {
+        // promise-retry 等库可能以非 Error 值 reject (如 null)
+        throw new Error(`${prefix}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * 执行买入操作 - 使用固定SOL数量
  */
@@ -83,29 +190,20 @@ export async function executeBuy(position: Position): Promise<OrderExecutionResu
     try {
         logger.info(`✅ Buying ${position.symbol} with ${position.solInvested} SOL @ MC ${formatMarketCap(position.entryPrice)}`);
 
-        if (!CONFIG.TRADE_ENABLED) {
-            logger.info('Trade disabled, simulating buy');
-            return {
-                success: true,
-            };
-        }
-
         // 将SOL数量转换为lamports
         const solAmountLamports = position.solInvested * LAMPORTS_PER_SOL;
 
         const swapParams = {
-            inputMint: "So11111111111111111111111111111111111111112", // SOL
+            inputMint: SOL_MINT,
             outputMint: position.address,
             amount: solAmountLamports,
             slippageBps: 4000,
         };
 
-        const signature = await executeJupiterSwap(swapParams);
-
-        if (signature) {
-            // 获取买入后的代币余额
-            // const tokenBalance = await getTokenBalanceForOrder(position.address);
+        const swap = await executeJupiterSwap(swapParams);
 
+        if (swap) {
+            const { signature } = swap;
             const message = `✅ Buy executed: ${signature}`;
             logger.info(message);
 
@@ -120,6 +218,9 @@ Tx: ${signature}`, "Trade");
             return {
                 success: true,
                 signature,
+                executedTokenAmount: swap.tokenDelta,
+                solAmount: -swap.solDelta,
+                fee: swap.fee
             };
         } else {
             return {
@@ -138,25 +239,15 @@ Tx: ${signature}`, "Trade");
 }
 
 /**
- * 执行卖出操作 - 按比例卖出当前持有的代币
+ * 执行卖出操作 - 按订单的比例和基数卖出
  */
-export async function executeSell(
-    address: string,
-    symbol: string,
-    gain: number,
-    sellRatio: number,
-    reason?: string
-): Promise<OrderExecutionResult> {
+export async function executeSell(position: Position, order: Order): Promise<OrderExecutionResult> {
+    const { address, symbol } = position;
+    const { sellRatio, description: reason } = order;
+    const gain = ((position.currentPrice - position.entryPrice) / position.entryPrice) * 100;
     try {
         logger.info(`🔴 Selling ${symbol} ${sellRatio}% gain:${gain.toFixed(0)}% reason: ${reason}`);
 
-        if (!CONFIG.TRADE_ENABLED) {
-            logger.info('Trade disabled, simulating sell');
-            return {
-                success: true,
-            };
-        }
-
         // 获取当前代币余额
         const balanceData = await getTokenBalance(new PublicKey(address));
         if (!balanceData.balance || balanceData.balance === 0n) {
@@ -167,19 +258,19 @@ export async function executeSell(
         }
 
         // 计算要卖出的代币数量（按比例）
-        const totalTokenBalance = balanceData.balance;
-        const tokenAmountToSell = (totalTokenBalance * BigInt(sellRatio)) / 100n;
+        const tokenAmountToSell = Math.floor(getSellAmount(order, position, Number(balanceData.balance)));
 
         const swapParams: SwapParams = {
             inputMint: address,
-            outputMint: "So11111111111111111111111111111111111111112", // SOL
-            amount: Number(tokenAmountToSell.toString()),
+            outputMint: SOL_MINT,
+            amount: tokenAmountToSell,
             slippageBps: 4000,
         };
 
-        const signature = await executeJupiterSwap(swapParams);
+        const swap = await executeJupiterSwap(swapParams);
 
-        if (signature) {
+        if (swap) {
+            const { signature } = swap;
             const message = `🔴 Sold ${symbol} ${sellRatio}%
 Gain: ${gain.toFixed(2)}%
 Reason: ${reason}
@@ -191,6 +282,9 @@ Tx: ${signature}`;
             return {
                 success: true,
                 signature,
+                executedTokenAmount: -swap.tokenDelta,
+                solAmount: swap.solDelta,
+                fee: swap.fee
             };
         } else {
             return {
@@ -208,6 +302,14 @@ Tx: ${signature}`;
     }
 }
 
+/**
+ * 实盘执行器 (Jupiter)，总是发送链上交易；关闭交易时 WebSocketHandler 改用 SimulatedExecutor
+ */
+export const jupiterExecutor: TradeExecutor = {
+    buy: (position: Position) => executeBuy(position),
+    sell: (position: Position, order: Order) => executeSell(position, order)
+};
+
 /**
  * 获取代币余额（数字格式）
  */
@@ -0,0 +1,36 @@
+import { OrderErrorKind } from '../types';
+
+// 执行器发现代币余额为零时返回的错误，订单按成交处理并平仓
+export const NO_BALANCE_ERROR = 'No token balance available & shouldClosePosition';
+
+// 按错误信息归类，靠前的优先
+const ERROR_PATTERNS: [OrderErrorKind, RegExp][] = [
+    ['FILL_UNKNOWN', /fill amounts unknown/i],
+    ['INSUFFICIENT_BALANCE', /insufficient|no token balance|not enough|0x1\b/i],
+    ['BLOCKHASH_EXPIRED', /blockhash|block height exceeded|expired/i],
+    ['QUOTE', /quote|route|swap request|jupiter/i],
+    ['RPC', /rpc|fetch failed|timeout|timed out|econn|socket|429|too many requests|50[023]|network/i]
+];
+
+/**
+ * 订单失败原因分类
+ */
+export function classifyOrderError(error: string | undefined): OrderErrorKind {
+    if (!error) return 'UNKNOWN';
+    const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(error));
+    return match ? match[0] : 'UNKNOWN';
+}
+
+/**
+ * 余额不足重试也不会成功，已上链但成交数量未知时重试会重复买卖，其余错误按退避重试
+ */
+export function isRetryableError(kind: OrderErrorKind): boolean {
+    return kind !== 'INSUFFICIENT_BALANCE' && kind !== 'FILL_UNKNOWN';
+}
+
+/**
+ * 第 attempt 次重试前的等待时间 (ms): BASE_DELAY * 2^(attempt-1)，不超过 MAX_DELAY
+ */
+export function getRetryDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+    return Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+}
@@ -6,42 +6,61 @@ import {
     OrderCreationParams,
     OrderExecutionResult,
     Position,
+    TradeExecutor,
     TradeHistoryRecord
 } from '../types';
 import { TradingDatabase } from '../database/tradingDb';
-import { executeBuy, executeSell } from './jupiterSwap';
+import { jupiterExecutor } from './jupiterSwap';
 import { sendToTelegram } from '../services/telegram/message';
-import { wait } from '../utils/format';
+import { now, sleep } from '../utils/clock';
 import logger from '../services/logger';
 import { getTokenBalance } from '../utils/getTokrnBalance';
 import { PublicKey } from '@solana/web3.js';
+import { CONFIG } from '../config';
+import { describeTrigger, evaluateTrigger, validateTriggerTree } from './orderTriggers';
+import { classifyOrderError, getRetryDelay, isRetryableError, NO_BALANCE_ERROR } from './orderErrors';
+import { formatDuration } from '../utils/format';
 
 export class OrderManager {
     private db: TradingDatabase;
+    private executor: TradeExecutor;
     private executingOrders = new Set<string>(); // 防止重复执行
     private orderCounter = 0;
-    constructor(db: TradingDatabase) {
+    constructor(db: TradingDatabase, executor: TradeExecutor = jupiterExecutor) {
         this.db = db;
-
-        // 启动订单监控
-        this.startOrderMonitoring();
+        this.executor = executor;
     }
 
     /**
      * 创建订单
      */
     createOrder(params: OrderCreationParams): Order {
+        if (params.triggerType === TriggerType.COMPOSITE) {
+            const errors = validateTriggerTree(params.triggerTree);
+            if (errors.length > 0) {
+                throw new Error(`Invalid composite trigger: ${errors.join('; ')}`);
+            }
+        }
+
         const order: Order = {
             id: this.generateOrderId(params.positionId, params.type),
             positionId: params.positionId,
             type: params.type as OrderType,
             status: OrderStatus.PENDING,
             sellRatio: params.sellRatio,
+            sellBasis: params.sellBasis ?? 'REMAINING',
             triggerType: params.triggerType as TriggerType,
             triggerCondition: params.triggerCondition,
             triggerValue: params.triggerValue,
-            triggerDescription: params.triggerDescription,
-            createdAt: Date.now(),
+            triggerDescription: params.triggerDescription || (params.triggerTree ? describeTrigger(params.triggerTree) : ''),
+            activationGain: params.activationGain,
+            maxGain: params.maxGain,
+            expiresAt: params.expiresAt,
+            triggerTree: params.triggerTree,
+            tag: params.tag,
+            onComplete: params.onComplete,
+            groupId: params.groupId,
+            createdAt: now(),
             retryCount: 0,
             description: params.description
         };
@@ -53,33 +72,63 @@ export class OrderManager {
     }
 
     /**
-     * 检查并执行订单
+     * 检查并执行订单，返回导致仓位需要关闭的订单 (没有则为 null)
      */
-    async checkAndExecuteOrders(position: Position): Promise<boolean> {
-        const pendingOrders = this.db.getPositionOrders(position.id)
-            .filter(order => order.status === OrderStatus.PENDING);
-        let shouldClosePosition = false;
+    async checkAndExecuteOrders(position: Position): Promise<Order | null> {
+        const pendingOrders = this.expireOrders(this.db.getPositionOrders(position.id)
+            .filter(order => order.status === OrderStatus.PENDING));
+        let closingOrder: Order | null = null;
         for (const order of pendingOrders) {
             if (this.shouldTriggerOrder(order, position)) {
+                // 前面成交的订单可能已经联动取消了该订单
+                if (this.db.getOrder(order.id)?.status !== OrderStatus.PENDING) continue;
+
                 // 标记为已触发
                 order.status = OrderStatus.TRIGGERED;
-                order.triggeredAt = Date.now();
+                order.triggeredAt = now();
                 this.db.updateOrder(order);
 
-                // 执行订单
-                const result = await this.executeOrder(order, position);
-                if (!result.success && result.error === "No token balance available & shouldClosePosition") {
-                    shouldClosePosition = true;
+                // 执行订单，止损单失败后不等退避立即重试
+                let result = await this.executeOrder(order, position);
+                for (let attempt = 0; !result.success && order.type === OrderType.STOP_LOSS
+                    && order.nextRetryAt !== undefined && attempt < CONFIG.RETRY.STOP_LOSS_IMMEDIATE; attempt++) {
+                    logger.warn(`🔁 Retrying stop loss for ${position.symbol} immediately (${order.retryCount}/${CONFIG.RETRY.MAX_RETRIES})`);
+                    result = await this.executeOrder(order, position);
+                }
+                if (result.success && result.error === NO_BALANCE_ERROR) {
+                    closingOrder = order;
+                    logger.info(`🏁 Position ${position.symbol} will be closed, no token balance left`);
                     break;
                 }
                 if (result.success && order.sellRatio >= 100) {
-                    shouldClosePosition = true;
+                    closingOrder = order;
                     logger.info(`🏁 Position ${position.symbol} will be closed due to 100% sell order`);
                     break;
                 }
+                // 按开仓数量计算比例时，部分卖出的订单也可能卖完剩余代币
+                if (result.success && position.tokenRemaining !== undefined && position.tokenRemaining <= 0) {
+                    closingOrder = order;
+                    logger.info(`🏁 Position ${position.symbol} will be closed, no tokens remaining after ${order.tag || order.type}`);
+                    break;
+                }
             }
         }
-        return shouldClosePosition
+        return closingOrder;
+    }
+
+    /**
+     * 把已到期的订单标记为过期，返回仍然有效的订单
+     */
+    private expireOrders(orders: Order[]): Order[] {
+        const timestamp = now();
+        return orders.filter(order => {
+            if (order.expiresAt === undefined || timestamp < order.expiresAt) return true;
+
+            order.status = OrderStatus.EXPIRED;
+            this.db.updateOrder(order);
+            logger.info(`⌛ Order expired: ${order.type} (${order.triggerDescription}) for ${order.positionId}`);
+            return false;
+        });
     }
 
     /**
@@ -99,6 +148,27 @@ export class OrderManager {
             case 'LFG_FLAG':
                 return position.lfg === triggerValue;
 
+            case 'DRAWDOWN_PERCENT': {
+                // 最高收益率未达到激活值前不触发
+                const peakGain = ((position.highestPrice - position.entryPrice) / position.entryPrice) * 100;
+                if (order.activationGain !== undefined && peakGain < order.activationGain) return false;
+                const drawdown = ((position.highestPrice - position.currentPrice) / position.highestPrice) * 100;
+                return this.checkCondition(drawdown, triggerCondition, triggerValue);
+            }
+
+            case 'TIME': {
+                // 收益率已达到上限时不按时间卖出
+                if (order.maxGain !== undefined) {
+                    const currentGain = ((position.currentPrice - position.entryPrice) / position.entryPrice) * 100;
+                    if (currentGain >= order.maxGain) return false;
+                }
+                const heldMinutes = (now() - position.entryTime) / 60000;
+                return this.checkCondition(heldMinutes, triggerCondition, triggerValue);
+            }
+
+            case 'COMPOSITE':
+                return !!order.triggerTree && evaluateTrigger(order.triggerTree, position);
+
             case 'IMMEDIATE':
                 return true;
 
@@ -146,36 +216,42 @@ export class OrderManager {
             if (result.success) {
                 // 执行成功
                 order.status = OrderStatus.COMPLETED;
-                order.executedAt = Date.now();
+                order.executedAt = now();
                 order.signature = result.signature;
-                // order.executedTokenAmount = result.executedTokenAmount;
+                order.executedTokenAmount = result.executedTokenAmount;
+                order.receivedSolAmount = result.solAmount;
+
+                // OCO 组内的其他订单与成交状态一起提交
+                const cancelled = this.db.completeOrder(order);
+                if (cancelled > 0) {
+                    logger.info(`🔀 ${order.tag || order.type} completed, cancelled ${cancelled} order(s) in group ${order.groupId}`);
+                }
+
+                // 余额为零时没有实际成交，不扣减数量也不记录交易
+                const filled = result.error !== NO_BALANCE_ERROR;
+                if (filled) this.updateTokenRemaining(order, position, result);
 
                 // 记录交易历史
-                this.recordTradeHistory(order, position, result);
+                if (filled) this.recordTradeHistory(order, position, result);
+
+                // 联动动作
+                this.runCompletionActions(order);
 
                 // 发送通知
-                this.sendOrderNotification(order, position, result);
+                if (filled) this.sendOrderNotification(order, position, result);
 
                 logger.info(`✅ Order executed successfully: ${order.id}`);
             } else {
                 // 执行失败
-                order.status = OrderStatus.FAILED;
-                order.error = result.error;
-                order.retryCount++;
-
                 logger.error(`❌ Order execution failed: ${order.id}, error: ${result.error}`);
+                this.markFailed(order, position, result.error);
             }
 
-            this.db.updateOrder(order);
             return result;
 
         } catch (error) {
-            order.status = OrderStatus.FAILED;
-            order.error = error.message;
-            order.retryCount++;
-            this.db.updateOrder(order);
-
             logger.error(`❌ Order execution error: ${order.id}`, error);
+            this.markFailed(order, position, error.message);
             return { success: false, error: error.message };
 
         } finally {
@@ -183,12 +259,71 @@ export class OrderManager {
         }
     }
 
+    /**
+     * 记录失败并安排重试: 可重试的错误按指数退避重试，次数用完或不可重试时发送告警
+     */
+    private markFailed(order: Order, position: Position, error: string | undefined): void {
+        order.status = OrderStatus.FAILED;
+        order.error = error;
+        order.errorKind = classifyOrderError(error);
+        order.retryCount++;
+
+        if (isRetryableError(order.errorKind) && order.retryCount <= CONFIG.RETRY.MAX_RETRIES) {
+            const delay = getRetryDelay(order.retryCount, CONFIG.RETRY.BASE_DELAY, CONFIG.RETRY.MAX_DELAY);
+            order.nextRetryAt = now() + delay;
+            logger.warn(`🔁 ${order.type} for ${position.symbol} failed (${order.errorKind}), retry ${order.retryCount}/${CONFIG.RETRY.MAX_RETRIES} in ${formatDuration(delay)}`);
+        } else {
+            order.nextRetryAt = undefined;
+            logger.error(`🚨 ${order.type} for ${position.symbol} gave up after ${order.retryCount} attempt(s) (${order.errorKind})`);
+            sendToTelegram(
+                `🚨 订单执行失败，已停止重试\nSymbol: ${position.symbol}\nAddress: ${position.address}\nOrder: ${order.type} (${order.triggerDescription})\nAttempts: ${order.retryCount}\nError (${order.errorKind}): ${error}`,
+                "Alert"
+            );
+        }
+        this.db.updateOrder(order);
+    }
+
+    /**
+     * 把到了重试时间的失败订单恢复为待触发，返回涉及的仓位 id
+     * 恢复后按最新行情重新判断触发条件，条件已不满足的订单继续挂着
+     */
+    rearmDueRetries(): string[] {
+        const positionIds = new Set<string>();
+        for (const order of this.db.getDueRetryOrders(now())) {
+            order.status = OrderStatus.PENDING;
+            order.nextRetryAt = undefined;
+            this.db.updateOrder(order);
+            positionIds.add(order.positionId);
+            logger.info(`🔁 Re-armed ${order.type} for ${order.positionId} (attempt ${order.retryCount + 1})`);
+        }
+        return [...positionIds];
+    }
+
+    /**
+     * 执行订单成交后的联动动作
+     */
+    private runCompletionActions(order: Order): void {
+        for (const action of order.onComplete || []) {
+            try {
+                if (action.type === 'CANCEL') {
+                    const cancelled = this.db.cancelOrdersByTag(order.positionId, action.tag);
+                    logger.info(`🔗 ${order.tag || order.type} completed, cancelled ${cancelled} ${action.tag} order(s)`);
+                } else if (action.type === 'CREATE') {
+                    this.createOrder({ ...action.order, positionId: order.positionId });
+                    logger.info(`🔗 ${order.tag || order.type} completed, armed ${action.order.tag || action.order.type}`);
+                }
+            } catch (error) {
+                logger.error(`❌ Completion action failed for ${order.id}:`, error);
+            }
+        }
+    }
+
     /**
      * 执行买入订单
      */
     private async executeBuyOrder(order: Order, position: Position): Promise<OrderExecutionResult> {
         try {
-            const result = await executeBuy(position);
+            const result = await this.executor.buy(position);
             return result;
         } catch (error) {
             return {
@@ -205,28 +340,21 @@ export class OrderManager {
         try {
             // 特殊处理：LFG订单需要等待
             if (order.type === OrderType.LFG_SELL) {
-                await wait(2000);
+                await sleep(2000);
             }
 
-            // 获取当前代币余额
-            const currentTokenBalance = await getTokenBalance(new PublicKey(position.address));
-            if (currentTokenBalance.balance === 0n) {
-                return {
-                    success: true,
-                    error: 'No token balance available & shouldClosePosition'
-                };
+            // 获取当前代币余额（模拟交易时跳过链上查询）
+            if (CONFIG.TRADE_ENABLED) {
+                const currentTokenBalance = await getTokenBalance(new PublicKey(position.address));
+                if (currentTokenBalance.balance === 0n) {
+                    return {
+                        success: true,
+                        error: NO_BALANCE_ERROR
+                    };
+                }
             }
 
-            const gain = ((position.currentPrice - position.entryPrice) / position.entryPrice) * 100;
-
-            const result = await executeSell(
-                position.address,
-                position.symbol,
-                gain,
-                order.sellRatio,
-                order.description
-            );
-
+            const result = await this.executor.sell(position, order);
             return result;
         } catch (error) {
             return {
@@ -236,6 +364,16 @@ export class OrderManager {
         }
     }
 
+    /**
+     * 卖出成交后扣减仓位的剩余代币数量
+     */
+    private updateTokenRemaining(order: Order, position: Position, result: OrderExecutionResult): void {
+        if (order.type === OrderType.MARKET_BUY || result.executedTokenAmount === undefined || position.tokenRemaining === undefined) return;
+
+        position.tokenRemaining = Math.max(0, position.tokenRemaining - result.executedTokenAmount);
+        this.db.updatePositionFill(position);
+    }
+
     /**
      * 记录交易历史
      */
@@ -244,6 +382,13 @@ export class OrderManager {
 
         const gain = ((position.currentPrice - position.entryPrice) / position.entryPrice) * 100;
 
+        // 卖出部分的买入成本: 按代币数量占开仓数量的比例分摊，数量未知时按卖出比例
+        const solSpent = position.solSpent ?? position.solInvested;
+        const soldFraction = position.tokenAmount && result.executedTokenAmount !== undefined
+            ? result.executedTokenAmount / position.tokenAmount
+            : order.sellRatio / 100;
+        const solReceived = result.solAmount ?? 0;
+
         const tradeRecord: TradeHistoryRecord = {
             positionId: position.id,
             orderId: order.id,
@@ -254,9 +399,17 @@ export class OrderManager {
             entryPrice: position.entryPrice,
             exitPrice: position.currentPrice,
             gainPercent: gain,
-            executedAt: Math.floor(Date.now() / 1000),
+            executedAt: Math.floor(now() / 1000),
             signature: result.signature,
-            reason: order.description
+            reason: order.description,
+            strategy: position.strategy,
+            score: position.score,
+            tokenAmount: result.executedTokenAmount,
+            solSpent: 0,
+            solReceived,
+            fee: result.fee ?? 0,
+            realizedPnl: solReceived - solSpent * soldFraction,
+            simulated: result.simulated
         };
 
         this.db.insertTradeHistory(tradeRecord);
@@ -292,7 +445,7 @@ export class OrderManager {
     }
     private generateOrderId(positionId: string, type: string): string {
         this.orderCounter++;
-        const timestamp = Date.now();
+        const timestamp = now();
         const random = Math.floor(Math.random() * 1000);
         return `${positionId}_${type}_${timestamp}_${this.orderCounter}_${random}`;
     }
@@ -336,40 +489,21 @@ export class OrderManager {
      */
     getStats() {
         const allOrders = this.db.getPendingOrders();
-        const now = Date.now();
-        const oneDayAgo = now - 24 * 60 * 60 * 1000;
+        const oneDayAgo = now() - 24 * 60 * 60 * 1000;
 
         return {
             pending: allOrders.length,
             executing: allOrders.filter(o => o.status === OrderStatus.EXECUTING).length,
             completedToday: this.db.getTradeHistory(1000)
-                .filter(t => t.executedAt * 1000 > oneDayAgo).length
+                .filter(t => t.type !== OrderType.MARKET_BUY && t.executedAt * 1000 > oneDayAgo).length
         };
     }
 
-    /**
-     * 启动订单监控（定期检查失败的订单是否需要重试）
-     */
-    private startOrderMonitoring(): void {
-        setInterval(() => {
-            this.retryFailedOrders();
-        }, 60000); // 每分钟检查一次
-    }
-
-    /**
-     * 重试失败的订单
-     */
-    private retryFailedOrders(): void {
-        // 这里可以实现重试逻辑
-        // 比如将某些失败的订单重新设置为PENDING状态
-        logger.debug('Checking for failed orders to retry...');
-    }
-
     /**
      * 清理完成的订单（可选，用于数据库维护）
      */
     cleanupCompletedOrders(olderThanDays: number = 7): void {
-        const cutoffTime = Date.now() - (olderThanDays * 24 * 60 * 60 * 1000);
+        const cutoffTime = now() - (olderThanDays * 24 * 60 * 60 * 1000);
         // 这里可以实现清理逻辑
         // 比如删除7天前的已完成订单
         logger.info(`Cleaning up orders older than ${olderThanDays} days`);
@@ -0,0 +1,127 @@
+import { Position, TriggerCondition, TriggerGroup, TriggerNode } from '../types';
+import { isKnownField, resolveField } from '../core/filterRules';
+import { now } from '../utils/clock';
+
+// 仓位指标
+const POSITION_METRICS: Record<string, (position: Position) => number> = {
+    mc: position => position.currentPrice,
+    gain: position => ((position.currentPrice - position.entryPrice) / position.entryPrice) * 100,
+    drawdown: position => ((position.highestPrice - position.currentPrice) / position.highestPrice) * 100,
+    peakGain: position => ((position.highestPrice - position.entryPrice) / position.entryPrice) * 100,
+    lfg: position => position.lfg,
+    heldMinutes: position => (now() - position.entryTime) / 60000,
+    devStatusChanged: position => position.entrySnapshot && position.latestSnapshot
+        && position.entrySnapshot.d_ts !== position.latestSnapshot.d_ts ? 1 : 0
+};
+
+// 描述中使用的名称
+const METRIC_LABELS: Record<string, string> = {
+    mc: '市值',
+    gain: '收益率',
+    drawdown: '回撤',
+    peakGain: '最高收益率',
+    lfg: 'LFG',
+    heldMinutes: '持仓分钟',
+    devStatusChanged: 'Dev状态变化',
+    hd: '持有人',
+    t10: '前10持仓',
+    v1h: '1小时交易量',
+    kol: 'KOL',
+    rat: '老鼠仓比例',
+    bdrr: '捆绑比例'
+};
+
+const OPERATOR_LABELS = { GTE: '>=', LTE: '<=', EQ: '=' };
+const PERCENT_METRICS = ['gain', 'drawdown', 'peakGain'];
+
+export function isTriggerGroup(node: TriggerNode): node is TriggerGroup {
+    return 'all' in node || 'any' in node;
+}
+
+/**
+ * 读取条件的实际值，行情字段缺失时返回 null
+ */
+export function resolveMetric(condition: TriggerCondition, position: Position): number | null {
+    const metric = POSITION_METRICS[condition.metric];
+    if (metric) return metric(position);
+
+    const latest = position.latestSnapshot ? resolveField(position.latestSnapshot, condition.metric) : undefined;
+    if (typeof latest !== 'number' || isNaN(latest)) return null;
+    if (!condition.change) return latest;
+
+    const entry = position.entrySnapshot ? resolveField(position.entrySnapshot, condition.metric) : undefined;
+    if (typeof entry !== 'number' || !entry) return null;
+    return ((latest - entry) / entry) * 100;
+}
+
+/**
+ * 递归判断组合条件
+ */
+export function evaluateTrigger(node: TriggerNode, position: Position): boolean {
+    if (isTriggerGroup(node)) {
+        return node.all
+            ? node.all.every(child => evaluateTrigger(child, position))
+            : (node.any || []).some(child => evaluateTrigger(child, position));
+    }
+
+    const actual = resolveMetric(node, position);
+    if (actual === null) return false;
+    switch (node.op) {
+        case 'GTE': return actual >= node.value;
+        case 'LTE': return actual <= node.value;
+        case 'EQ': return actual === node.value;
+        default: return false;
+    }
+}
+
+/**
+ * 生成可读的触发描述，如 "收益率 >= 50% 且 LFG = 1"
+ */
+export function describeTrigger(node: TriggerNode, nested: boolean = false): string {
+    if (isTriggerGroup(node)) {
+        const joiner = node.all ? ' 且 ' : ' 或 ';
+        const text = (node.all || node.any || []).map(child => describeTrigger(child, true)).join(joiner);
+        return nested ? `(${text})` : text;
+    }
+
+    const label = METRIC_LABELS[node.metric] || node.metric;
+    const percent = node.change || PERCENT_METRICS.includes(node.metric) ? '%' : '';
+    return `${label}${node.change ? '较开仓' : ''} ${OPERATOR_LABELS[node.op]} ${node.value}${percent}`;
+}
+
+/**
+ * 校验组合条件，返回错误列表
+ */
+export function validateTriggerTree(node: unknown, location: string = 'triggerTree'): string[] {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        return [`${location}: must be an object`];
+    }
+
+    const candidate = node as Record<string, unknown>;
+    if ('all' in candidate || 'any' in candidate) {
+        if ('all' in candidate && 'any' in candidate) {
+            return [`${location}: a group must have either "all" or "any", not both`];
+        }
+        const key = 'all' in candidate ? 'all' : 'any';
+        const children = candidate[key];
+        if (!Array.isArray(children) || children.length === 0) {
+            return [`${location}: group must contain a non-empty array`];
+        }
+        return children.flatMap((child, index) => validateTriggerTree(child, `${location}.${key}[${index}]`));
+    }
+
+    const errors: string[] = [];
+    const { metric, op, value, change } = candidate;
+    if (!(typeof metric === 'string' && metric in POSITION_METRICS) && !isKnownField(metric)) {
+        errors.push(`${location}: unknown metric "${String(metric)}"`);
+    } else if (change !== undefined && (typeof change !== 'boolean' || (change && (metric as string) in POSITION_METRICS))) {
+        errors.push(`${location}: change is only supported for token fields`);
+    }
+    if (op !== 'GTE' && op !== 'LTE' && op !== 'EQ') {
+        errors.push(`${location}: op must be GTE, LTE or EQ`);
+    }
+    if (typeof value !== 'number') {
+        errors.push(`${location}: value must be a number`);
+    }
+    return errors;
+}
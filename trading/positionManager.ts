@@ -1,26 +1,42 @@
-import { OrderType, Position, PositionStatus, TokenData, TriggerType } from '../types';
+import { OrderCreationParams, OrderExecutionResult, OrderStatus, OrderType, Position, PositionStatus, Strategy, TokenData, TokenScore, TradeExecutor, PnlSummary, TriggerCondition, TriggerType } from '../types';
 import { TradingDatabase } from '../database/tradingDb';
 import { OrderManager } from './orderManager';
 import { CONFIG } from '../config';
 import logger from '../services/logger';
-import { executeBuy } from './jupiterSwap';
+import { now } from '../utils/clock';
+import { jupiterExecutor } from './jupiterSwap';
+import { scalePositionSize } from '../core/tokenScore';
+import { describeTrigger } from './orderTriggers';
 
 export class PositionManager {
     private db: TradingDatabase;
     private orderManager: OrderManager;
+    private executor: TradeExecutor;
 
-    constructor(db: TradingDatabase, orderManager: OrderManager) {
+    constructor(db: TradingDatabase, orderManager: OrderManager, executor: TradeExecutor = jupiterExecutor) {
         this.db = db;
         this.orderManager = orderManager;
+        this.executor = executor;
+    }
+
+    /**
+     * 是否还能开仓: 钱包总上限 + 策略自身上限
+     */
+    hasCapacity(strategy: Strategy): boolean {
+        return this.db.getPositionCount() < CONFIG.RISK.MAX_POSITIONS
+            && this.db.getPositionCount(strategy.name) < strategy.maxPositions;
     }
 
     /**
      * 创建新仓位
      */
-    async createPosition(token: TokenData, solInvested: number): Promise<Position | null> {
+    async createPosition(token: TokenData, strategy: Strategy, score: TokenScore | null = null): Promise<Position | null> {
         const address = token.a;
         const symbol = token.s;
         const currentPrice = token.mc;
+        const solInvested = score && strategy.scoreModel
+            ? scalePositionSize(strategy.solInvestmentAmount, score.score, strategy.scoreModel)
+            : strategy.solInvestmentAmount;
 
         // 检查风险限制
         const activeCount = this.db.getPositionCount();
@@ -28,6 +44,11 @@ export class PositionManager {
             logger.warn(`Risk limit reached (${activeCount}/${CONFIG.RISK.MAX_POSITIONS}), skipping ${symbol}`);
             return null;
         }
+        const strategyCount = this.db.getPositionCount(strategy.name);
+        if (strategyCount >= strategy.maxPositions) {
+            logger.warn(`Strategy ${strategy.name} limit reached (${strategyCount}/${strategy.maxPositions}), skipping ${symbol}`);
+            return null;
+        }
 
         // 检查是否已存在
         const existing = this.db.getPosition(address);
@@ -45,10 +66,14 @@ export class PositionManager {
             highestPrice: currentPrice,
             lowestPrice: currentPrice,
             solInvested,
-            entryTime: Date.now(),
-            lastUpdated: Date.now(),
+            entryTime: now(),
+            lastUpdated: now(),
             status: PositionStatus.ACTIVE,
-            lfg: 0
+            lfg: 0,
+            strategy: strategy.name,
+            score: score?.score,
+            entrySnapshot: token,
+            latestSnapshot: token
         };
 
         try {
@@ -56,16 +81,23 @@ export class PositionManager {
             this.db.insertPosition(position);
 
             // 创建默认订单
-            this.createDefaultOrders(position);
-            const buyResult = await executeBuy(position);
+            this.createDefaultOrders(position, strategy);
+            const buyResult = await this.executor.buy(position);
 
             if (!buyResult.success) {
-                // 买入失败，删除仓位记录
+                // 买入失败，先取消默认订单留下事件记录，再删除仓位记录
+                this.db.cancelPositionOrders(position.id);
                 this.db.deletePosition(position.id);
                 logger.error(`❌ Buy failed for ${symbol}: ${buyResult.error}`);
                 return null;
             }
-            logger.info(`✅ Position created: ${symbol} @ ${currentPrice} (invested: ${CONFIG.SOL_INVESTMENT_AMOUNT} SOL)`);
+            position.tokenAmount = buyResult.executedTokenAmount;
+            position.tokenRemaining = buyResult.executedTokenAmount;
+            position.solSpent = buyResult.solAmount;
+            position.simulated = buyResult.simulated;
+            this.db.updatePositionFill(position);
+            this.recordEntry(position, buyResult);
+            logger.info(`✅ Position created: ${symbol} @ ${currentPrice} (strategy: ${strategy.name}, score: ${score ? score.score.toFixed(1) : '-'}, invested: ${solInvested} SOL)`);
             return position;
 
         } catch (error) {
@@ -75,69 +107,172 @@ export class PositionManager {
     }
 
     /**
-     * 创建默认订单
+     * 买入记入交易历史
+     */
+    private recordEntry(position: Position, result: OrderExecutionResult): void {
+        if (!result.signature) return;
+
+        this.db.insertTradeHistory({
+            positionId: position.id,
+            orderId: `${position.id}_BUY_${position.entryTime}`,
+            symbol: position.symbol,
+            address: position.address,
+            type: OrderType.MARKET_BUY,
+            sellRatio: 0,
+            entryPrice: position.entryPrice,
+            exitPrice: position.entryPrice,
+            gainPercent: 0,
+            executedAt: Math.floor(now() / 1000),
+            signature: result.signature,
+            reason: 'Entry',
+            strategy: position.strategy,
+            score: position.score,
+            tokenAmount: result.executedTokenAmount,
+            solSpent: result.solAmount ?? position.solInvested,
+            solReceived: 0,
+            fee: result.fee ?? 0,
+            realizedPnl: 0,
+            simulated: result.simulated
+        });
+    }
+
+    /**
+     * 按策略的出场模板创建默认订单
      */
-    private createDefaultOrders(position: Position): void {
+    private createDefaultOrders(position: Position, strategy: Strategy): void {
+        for (const order of this.buildDefaultOrders(position, strategy).values()) {
+            this.orderManager.createOrder(order);
+        }
+
+        logger.info(`📋 Created default orders for ${position.symbol} (${position.strategy})`);
+    }
+
+    /**
+     * 出场模板和策略的自定义订单，key 用于热重载时对应新旧订单
+     */
+    private buildDefaultOrders(position: Position, strategy: Strategy): Map<string, OrderCreationParams> {
+        const params = strategy.params;
+        const orders = new Map<string, OrderCreationParams>();
+
         // 止损单
-        this.orderManager.createOrder({
+        orders.set('STOP_LOSS', {
             positionId: position.id,
             type: OrderType.STOP_LOSS,
             sellRatio: 100, // 全部卖出
             triggerType: TriggerType.GAIN_PERCENT,
             triggerCondition: 'LTE',
-            triggerValue: CONFIG.STRATEGY.INITIAL_STOP_LOSS,
-            triggerDescription: `止损 ${CONFIG.STRATEGY.INITIAL_STOP_LOSS}%`,
-            description: `Initial stop loss at ${CONFIG.STRATEGY.INITIAL_STOP_LOSS}%`
+            triggerValue: params.INITIAL_STOP_LOSS,
+            triggerDescription: `止损 ${params.INITIAL_STOP_LOSS}%`,
+            description: `Initial stop loss at ${params.INITIAL_STOP_LOSS}%`
         });
 
         // 翻倍止盈单
-        if (CONFIG.STRATEGY.DOUBLE_SELL_RATIO > 0 && position.entryPrice < 30000) {
-            this.orderManager.createOrder({
+        if (params.DOUBLE_SELL_RATIO > 0 && position.entryPrice < 30000) {
+            orders.set('DOUBLE_PROFIT', {
                 positionId: position.id,
                 type: OrderType.TAKE_PROFIT,
-                sellRatio: CONFIG.STRATEGY.DOUBLE_SELL_RATIO,
+                sellRatio: params.DOUBLE_SELL_RATIO,
                 triggerType: TriggerType.GAIN_PERCENT,
                 triggerCondition: 'GTE',
-                triggerValue: CONFIG.STRATEGY.DOUBLE_PROFIT_THRESHOLD,
-                triggerDescription: `翻倍止盈 ${CONFIG.STRATEGY.DOUBLE_PROFIT_THRESHOLD}%`,
-                description: `Double profit at ${CONFIG.STRATEGY.DOUBLE_PROFIT_THRESHOLD}%`
+                triggerValue: params.DOUBLE_PROFIT_THRESHOLD,
+                triggerDescription: `翻倍止盈 ${params.DOUBLE_PROFIT_THRESHOLD}%`,
+                description: `Double profit at ${params.DOUBLE_PROFIT_THRESHOLD}%`
             });
         }
 
         // 目标市值1
-        if (CONFIG.STRATEGY.TARGET_MC_1 > 0) {
-            this.orderManager.createOrder({
+        if (params.TARGET_MC_1 > 0) {
+            orders.set('TARGET_MC_1', {
                 positionId: position.id,
                 type: OrderType.TAKE_PROFIT,
-                sellRatio: CONFIG.STRATEGY.TARGET_MC_1_RATIO,
+                sellRatio: params.TARGET_MC_1_RATIO,
                 triggerType: TriggerType.PRICE,
                 triggerCondition: 'GTE',
-                triggerValue: CONFIG.STRATEGY.TARGET_MC_1,
-                triggerDescription: `目标市值 ${CONFIG.STRATEGY.TARGET_MC_1}`,
-                description: `Target MC ${CONFIG.STRATEGY.TARGET_MC_1}`
+                triggerValue: params.TARGET_MC_1,
+                triggerDescription: `目标市值 ${params.TARGET_MC_1}`,
+                description: `Target MC ${params.TARGET_MC_1}`
             });
         }
 
         // 目标市值2
-        if (CONFIG.STRATEGY.TARGET_MC_2 > 0) {
-            this.orderManager.createOrder({
+        if (params.TARGET_MC_2 > 0) {
+            orders.set('TARGET_MC_2', {
                 positionId: position.id,
                 type: OrderType.TAKE_PROFIT,
-                sellRatio: CONFIG.STRATEGY.TARGET_MC_2_RATIO,
+                sellRatio: params.TARGET_MC_2_RATIO,
                 triggerType: TriggerType.PRICE,
                 triggerCondition: 'GTE',
-                triggerValue: CONFIG.STRATEGY.TARGET_MC_2,
-                triggerDescription: `目标市值 ${CONFIG.STRATEGY.TARGET_MC_2}`,
-                description: `Target MC ${CONFIG.STRATEGY.TARGET_MC_2}`
+                triggerValue: params.TARGET_MC_2,
+                triggerDescription: `目标市值 ${params.TARGET_MC_2}`,
+                description: `Target MC ${params.TARGET_MC_2}`
+            });
+        }
+
+        // 回撤单
+        if (params.TRAILING_STOP_PERCENT > 0 && params.TRAILING_STOP_RATIO > 0) {
+            orders.set('TRAILING_STOP', {
+                positionId: position.id,
+                type: OrderType.TRAILING_STOP,
+                sellRatio: params.TRAILING_STOP_RATIO,
+                triggerType: TriggerType.DRAWDOWN_PERCENT,
+                triggerCondition: 'GTE',
+                triggerValue: params.TRAILING_STOP_PERCENT,
+                triggerDescription: `最高点回撤 ${params.TRAILING_STOP_PERCENT}% (收益 ${params.TRAILING_STOP_ACTIVATION}% 后生效)`,
+                activationGain: params.TRAILING_STOP_ACTIVATION,
+                description: `Trailing stop ${params.TRAILING_STOP_PERCENT}% after +${params.TRAILING_STOP_ACTIVATION}%`
+            });
+        }
+
+        // 超时单
+        if (params.TIME_EXIT_MINUTES > 0 && params.TIME_EXIT_RATIO > 0) {
+            orders.set('TIME_EXIT', {
+                positionId: position.id,
+                type: OrderType.TIME_EXIT,
+                sellRatio: params.TIME_EXIT_RATIO,
+                triggerType: TriggerType.TIME,
+                triggerCondition: 'GTE',
+                triggerValue: params.TIME_EXIT_MINUTES,
+                triggerDescription: `持仓 ${params.TIME_EXIT_MINUTES} 分钟且收益低于 ${params.TIME_EXIT_MAX_GAIN}%`,
+                maxGain: params.TIME_EXIT_MAX_GAIN,
+                description: `Time exit after ${params.TIME_EXIT_MINUTES}min below ${params.TIME_EXIT_MAX_GAIN}%`
+            });
+        }
+
+        // 指标单: 任一指标相对开仓恶化
+        const healthConditions: TriggerCondition[] = [];
+        if (params.HEALTH_EXIT_HOLDER_DROP > 0) {
+            healthConditions.push({ metric: 'hd', change: true, op: 'LTE', value: -params.HEALTH_EXIT_HOLDER_DROP });
+        }
+        if (params.HEALTH_EXIT_T10_RISE > 0) {
+            healthConditions.push({ metric: 't10', change: true, op: 'GTE', value: params.HEALTH_EXIT_T10_RISE });
+        }
+        if (params.HEALTH_EXIT_VOLUME_DROP > 0) {
+            healthConditions.push({ metric: 'v1h', change: true, op: 'LTE', value: -params.HEALTH_EXIT_VOLUME_DROP });
+        }
+        if (params.HEALTH_EXIT_DEV_STATUS) {
+            healthConditions.push({ metric: 'devStatusChanged', op: 'EQ', value: 1 });
+        }
+        if (healthConditions.length > 0 && params.HEALTH_EXIT_RATIO > 0) {
+            const triggerTree = { any: healthConditions };
+            orders.set('HEALTH_EXIT', {
+                positionId: position.id,
+                type: OrderType.HEALTH_EXIT,
+                sellRatio: params.HEALTH_EXIT_RATIO,
+                triggerType: TriggerType.COMPOSITE,
+                triggerCondition: 'EQ',
+                triggerValue: 0,
+                triggerDescription: describeTrigger(triggerTree),
+                triggerTree,
+                description: 'Token health deteriorated'
             });
         }
 
         // LFG触发单
-        if (CONFIG.STRATEGY.LFG_SELL_RATIO > 0) {
-            this.orderManager.createOrder({
+        if (params.LFG_SELL_RATIO > 0) {
+            orders.set('LFG_SELL', {
                 positionId: position.id,
                 type: OrderType.LFG_SELL,
-                sellRatio: CONFIG.STRATEGY.LFG_SELL_RATIO,
+                sellRatio: params.LFG_SELL_RATIO,
                 triggerType: TriggerType.LFG_FLAG,
                 triggerCondition: 'EQ',
                 triggerValue: 1,
@@ -146,13 +281,153 @@ export class PositionManager {
             });
         }
 
-        logger.info(`📋 Created default orders for ${position.symbol}`);
+        // 自定义组合触发订单
+        for (const custom of strategy.orders) {
+            orders.set(custom.tag, {
+                positionId: position.id,
+                type: custom.type,
+                sellRatio: custom.sellRatio,
+                triggerType: TriggerType.COMPOSITE,
+                triggerCondition: 'EQ',
+                triggerValue: 0,
+                triggerDescription: custom.triggerDescription || describeTrigger(custom.triggerTree),
+                triggerTree: custom.triggerTree,
+                description: custom.description || `Custom order ${custom.tag}`
+            });
+        }
+
+        for (const [key, order] of orders) {
+            order.tag = key;
+            order.sellBasis = params.SELL_RATIO_OF_ORIGINAL ? 'ORIGINAL' : 'REMAINING';
+        }
+
+        // 翻倍止盈成交后，初始止损换成保本止损
+        const doubleProfit = orders.get('DOUBLE_PROFIT');
+        if (params.BREAK_EVEN_AFTER_DOUBLE && doubleProfit) {
+            doubleProfit.onComplete = [
+                { type: 'CANCEL', tag: 'STOP_LOSS' },
+                {
+                    type: 'CREATE',
+                    order: {
+                        type: OrderType.STOP_LOSS,
+                        sellRatio: 100,
+                        triggerType: TriggerType.GAIN_PERCENT,
+                        triggerCondition: 'LTE',
+                        triggerValue: 0,
+                        triggerDescription: '保本止损',
+                        tag: 'STOP_LOSS',
+                        description: 'Break-even stop after double profit'
+                    }
+                }
+            ];
+        }
+
+        // 目标市值1成交后才挂回撤单
+        const targetMc1 = orders.get('TARGET_MC_1');
+        const trailingStop = orders.get('TRAILING_STOP');
+        if (params.TRAILING_AFTER_TARGET_1 && targetMc1 && trailingStop) {
+            const { positionId, ...order } = trailingStop;
+            targetMc1.onComplete = [{ type: 'CREATE', order }];
+            orders.delete('TRAILING_STOP');
+        }
+
+        // LFG卖出单和目标市值1先成交的取消另一个
+        const lfgSell = orders.get('LFG_SELL');
+        if (params.LFG_OR_TARGET_MC_1 && lfgSell && targetMc1) {
+            lfgSell.groupId = 'LFG_OR_TARGET_MC_1';
+            targetMc1.groupId = 'LFG_OR_TARGET_MC_1';
+        }
+
+        // 止盈单过期时间从开仓时间算起
+        if (params.TAKE_PROFIT_TTL_MINUTES > 0) {
+            for (const order of orders.values()) {
+                if (order.type === OrderType.TAKE_PROFIT) {
+                    order.expiresAt = position.entryTime + params.TAKE_PROFIT_TTL_MINUTES * 60000;
+                }
+            }
+        }
+
+        return orders;
+    }
+
+    /**
+     * 触发条件是否与模板一致 (不比较卖出比例)
+     */
+    private matchesTemplate(order: OrderCreationParams, template: OrderCreationParams): boolean {
+        return order.triggerValue === template.triggerValue
+            && order.activationGain === template.activationGain
+            && order.maxGain === template.maxGain
+            && order.expiresAt === template.expiresAt
+            && order.groupId === template.groupId
+            && JSON.stringify(order.triggerTree) === JSON.stringify(template.triggerTree)
+            && JSON.stringify(order.onComplete) === JSON.stringify(template.onComplete);
     }
 
     /**
-     * 更新仓位价格
+     * 把策略现有仓位的待执行默认订单迁移到新的出场模板
+     * 按旧模板找到对应的待执行订单: 新模板仍有则更新触发值和比例，没有则取消；
+     * 新模板新增的订单只补给旧模板中没有该项的仓位，已成交的订单不会重新挂出
      */
-    async updatePosition(address: string, newPrice: number, lfg: number): Promise<Position | null> {
+    migratePendingOrders(previous: Strategy, next: Strategy): number {
+        let changed = 0;
+
+        for (const position of this.db.getActivePositions().filter(p => p.strategy === next.name)) {
+            const pending = this.db.getPositionOrders(position.id)
+                .filter(order => order.status === OrderStatus.PENDING);
+            const oldOrders = this.buildDefaultOrders(position, previous);
+            const newOrders = this.buildDefaultOrders(position, next);
+
+            for (const [key, template] of oldOrders) {
+                const order = pending.find(o => o.type === template.type
+                    && o.triggerType === template.triggerType
+                    && o.sellRatio === template.sellRatio
+                    && o.sellBasis === template.sellBasis
+                    && this.matchesTemplate(o, template));
+                if (!order) continue;
+
+                const replacement = newOrders.get(key);
+                if (!replacement) {
+                    this.db.cancelOrder(order.id);
+                    changed++;
+                    continue;
+                }
+                if (replacement.sellRatio === order.sellRatio && replacement.sellBasis === order.sellBasis
+                    && this.matchesTemplate(order, replacement)) continue;
+
+                order.sellRatio = replacement.sellRatio;
+                order.sellBasis = replacement.sellBasis ?? 'REMAINING';
+                order.triggerValue = replacement.triggerValue;
+                order.activationGain = replacement.activationGain;
+                order.maxGain = replacement.maxGain;
+                order.expiresAt = replacement.expiresAt;
+                order.onComplete = replacement.onComplete;
+                order.groupId = replacement.groupId;
+                order.triggerTree = replacement.triggerTree;
+                order.triggerDescription = replacement.triggerDescription;
+                order.description = replacement.description;
+                this.db.updateOrderTrigger(order);
+                changed++;
+            }
+
+            for (const [key, template] of newOrders) {
+                if (oldOrders.has(key)) continue;
+                this.orderManager.createOrder(template);
+                changed++;
+            }
+        }
+
+        if (changed > 0) {
+            logger.info(`🔁 Migrated ${changed} pending orders of strategy ${next.name}`);
+        }
+        return changed;
+    }
+
+    /**
+     * 用最新行情更新仓位价格和行情快照
+     */
+    async updatePosition(token: TokenData): Promise<Position | null> {
+        const address = token.a;
+        const newPrice = token.mc;
         const position = this.db.getPosition(address);
         if (!position) return null;
 
@@ -160,34 +435,86 @@ export class PositionManager {
         position.currentPrice = newPrice;
         position.highestPrice = Math.max(position.highestPrice, newPrice);
         position.lowestPrice = Math.min(position.lowestPrice, newPrice);
-        position.lastUpdated = Date.now();
-        position.lfg = lfg ? 1 : 0;
+        position.lastUpdated = now();
+        position.lfg = token.lc_flg ? 1 : 0;
+        position.latestSnapshot = token;
         // 保存到数据库
         this.db.updatePosition(position);
 
         // 检查订单触发
-        const shouldClosePosition = await this.orderManager.checkAndExecuteOrders(position);
-        if (shouldClosePosition) {
-            this.closePosition(address);
+        const closingOrder = await this.orderManager.checkAndExecuteOrders(position);
+        if (closingOrder) {
+            this.closePosition(address, closingOrder.tag || closingOrder.type);
             return null; // 仓位已关闭
         }
         return position;
     }
 
     /**
-     * 关闭仓位
+     * 没有新行情时检查超时单和过期订单，价格沿用最近一次行情
      */
-    closePosition(address: string): void {
+    async evaluateTimedOrders(address: string): Promise<void> {
+        const position = this.db.getPosition(address);
+        if (!position) return;
+
+        const timed = this.db.getPositionOrders(position.id)
+            .some(order => order.status === OrderStatus.PENDING
+                && (order.triggerType === TriggerType.TIME || order.expiresAt !== undefined));
+        if (!timed) return;
+
+        await this.checkOrders(address);
+    }
+
+    /**
+     * 按最近一次行情检查仓位的待执行订单 (定时检查 / 失败重试)
+     */
+    async checkOrders(address: string): Promise<void> {
+        const position = this.db.getPosition(address);
+        if (!position) return;
+
+        const closingOrder = await this.orderManager.checkAndExecuteOrders(position);
+        if (closingOrder) {
+            this.closePosition(address, closingOrder.tag || closingOrder.type);
+        }
+    }
+
+    /**
+     * 关闭仓位: 取消待执行订单，连同订单记录归档到 closed_positions 后删除
+     * @param exitReason 平仓原因，成交的订单标签 (如 STOP_LOSS) 或 MANUAL
+     */
+    closePosition(address: string, exitReason: string): void {
         const position = this.db.getPosition(address);
         if (!position) return;
 
         // 取消所有待执行订单
         const cancelledCount = this.db.cancelPositionOrders(position.id);
 
-        // 删除仓位（会自动删除关联订单）
-        this.db.deletePosition(position.id);
+        const pnl = this.calculatePnl(position);
+        const closedAt = now();
+        this.db.archivePosition({
+            positionId: position.id,
+            address: position.address,
+            symbol: position.symbol,
+            strategy: position.strategy,
+            score: position.score,
+            entryPrice: position.entryPrice,
+            exitPrice: position.currentPrice,
+            highestPrice: position.highestPrice,
+            lowestPrice: position.lowestPrice,
+            maxGain: ((position.highestPrice - position.entryPrice) / position.entryPrice) * 100,
+            solSpent: pnl.solSpent,
+            solReceived: pnl.solReceived,
+            fees: pnl.fees,
+            realizedPnl: pnl.realizedPnl,
+            entryTime: position.entryTime,
+            closedAt,
+            durationMs: closedAt - position.entryTime,
+            exitReason,
+            orders: this.db.getPositionOrders(position.id),
+            simulated: position.simulated
+        });
 
-        logger.info(`🛑 Position closed: ${position.symbol}, cancelled ${cancelledCount} orders`);
+        logger.info(`🛑 Position closed: ${position.symbol} (${exitReason}), cancelled ${cancelledCount} orders, pnl ${pnl.realizedPnl.toFixed(4)} SOL`);
     }
 
     /**
@@ -210,7 +537,7 @@ export class PositionManager {
         }, position);
 
         if (success) {
-            this.closePosition(address);
+            this.closePosition(address, 'MANUAL');
             return true;
         }
 
@@ -245,6 +572,41 @@ export class PositionManager {
         return ((position.highestPrice - position.currentPrice) / position.highestPrice) * 100;
     }
 
+    /**
+     * 仓位的SOL盈亏
+     * 已实现部分来自交易历史；未卖出部分的成本 = 买入花费 - 已卖出部分的成本，按开仓以来的市值涨幅估算现值
+     */
+    calculatePnl(position: Position): PnlSummary {
+        const totals = this.db.getTradeTotals(position.id, Math.floor(position.entryTime / 1000));
+        const solSpent = position.solSpent ?? position.solInvested;
+        const soldCost = totals.solReceived - totals.realizedPnl;
+        const remainingCost = Math.max(0, solSpent - soldCost);
+
+        return {
+            ...totals,
+            solSpent: totals.solSpent || solSpent,
+            unrealizedPnl: remainingCost * (position.currentPrice / position.entryPrice - 1)
+        };
+    }
+
+    /**
+     * 行情指标相对开仓的变化 (%)，没有快照时为 null
+     */
+    calculateHealth(position: Position) {
+        const entry = position.entrySnapshot;
+        const latest = position.latestSnapshot;
+        if (!entry || !latest) return null;
+
+        const change = (from?: number, to?: number) => from && to !== undefined ? ((to - from) / from) * 100 : null;
+        return {
+            holdersChange: change(entry.hd, latest.hd),
+            top10Change: change(entry.t10, latest.t10),
+            volumeChange: change(entry.v1h, latest.v1h),
+            devStatus: latest.d_ts,
+            devStatusChanged: entry.d_ts !== latest.d_ts
+        };
+    }
+
     /**
      * 获取仓位详情（包括订单）
      */
@@ -258,6 +620,8 @@ export class PositionManager {
             ...position,
             gain: this.calculateGain(position),
             drawdown: this.calculateDrawdown(position),
+            health: this.calculateHealth(position),
+            pnl: this.calculatePnl(position),
             orders: orders,
             orderCount: orders.length,
             pendingOrderCount: orders.filter(o => o.status === 'PENDING').length
@@ -312,15 +676,21 @@ export class PositionManager {
     getStats() {
         const dbStats = this.db.getStats();
         const positions = this.db.getActivePositions();
+        const pnl = new Map(positions.map(p => [p.id, this.calculatePnl(p)]));
 
         return {
             ...dbStats,
+            unrealizedPnl: [...pnl.values()].reduce((sum, item) => sum + item.unrealizedPnl, 0),
+            strategies: this.db.getStrategyStats(),
             positions: positions.map(p => ({
                 symbol: p.symbol,
                 address: p.address,
+                strategy: p.strategy,
+                score: p.score,
                 gain: this.calculateGain(p).toFixed(2),
                 status: p.status,
                 solInvested: p.solInvested,
+                pnl: pnl.get(p.id),
                 orderCount: this.db.getPositionOrders(p.id).length
             }))
         };
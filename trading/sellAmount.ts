@@ -0,0 +1,12 @@
+import { Order, Position } from '../types';
+
+/**
+ * 计算本次卖出的代币数量，不超过当前余额
+ * ORIGINAL 按开仓买入数量的比例 (买入数量未知时退回按余额)，REMAINING 按当前余额的比例；比例 >= 100 卖出全部余额
+ */
+export function getSellAmount(order: Order, position: Position, balance: number): number {
+    if (order.sellRatio >= 100) return balance;
+
+    const base = order.sellBasis === 'ORIGINAL' && position.tokenAmount ? position.tokenAmount : balance;
+    return Math.min(balance, base * order.sellRatio / 100);
+}
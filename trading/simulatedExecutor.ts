@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+import { FillModel, Order, OrderExecutionResult, OrderType, Position, SimulatedFill, TradeExecutor } from '../types';
+import { now, sleep } from '../utils/clock';
+import { getSellAmount } from './sellAmount';
+import { NO_BALANCE_ERROR } from './orderErrors';
+
+/**
+ * 模拟执行器 (回测 / 模拟交易)
+ * 等待 LATENCY_MS 后以最新市值按滑点、价格冲击和手续费模型成交，代币数量以“市值单位”计（供应量固定时与价格成正比）；
+ * 传入 solBalance 时维护虚拟 SOL 余额，余额不足时买入失败；
+ * 传入 getMarketCap 时用它读取等待期间的最新市值，没有新行情时按触发时的市值成交
+ */
+export class SimulatedExecutor implements TradeExecutor {
+    private model: FillModel;
+    private solBalance: number | null;
+    private holdings = new Map<string, number>();
+    private fills: SimulatedFill[] = [];
+    private getMarketCap?: (address: string) => number | undefined;
+
+    constructor(model: FillModel, solBalance: number | null = null, getMarketCap?: (address: string) => number | undefined) {
+        this.model = model;
+        this.solBalance = solBalance;
+        this.getMarketCap = getMarketCap;
+    }
+
+    async buy(position: Position): Promise<OrderExecutionResult> {
+        const solAmount = position.solInvested + this.model.NETWORK_FEE_SOL;
+        if (this.solBalance !== null && solAmount > this.solBalance) {
+            return { success: false, error: `Insufficient SOL balance: ${this.solBalance.toFixed(4)} < ${solAmount.toFixed(4)}` };
+        }
+        const marketCap = await this.waitForFill(position);
+
+        const price = marketCap * (1 + this.getSlippageBps(position.solInvested) / 10000);
+        const swapFee = position.solInvested * this.model.SWAP_FEE_BPS / 10000;
+        const tokenAmount = (position.solInvested - swapFee) / price;
+        const fee = swapFee + this.model.NETWORK_FEE_SOL;
+
+        if (this.solBalance !== null) this.solBalance -= solAmount;
+        this.holdings.set(position.address, (this.holdings.get(position.address) || 0) + tokenAmount);
+        this.fills.push({
+            positionId: position.id,
+            symbol: position.symbol,
+            strategy: position.strategy,
+            score: position.score,
+            type: OrderType.MARKET_BUY,
+            description: 'Entry',
+            time: now(),
+            marketCap,
+            tokenAmount,
+            solAmount,
+            fee
+        });
+
+        return { success: true, signature: this.createSignature(), executedTokenAmount: tokenAmount, solAmount, fee, simulated: true };
+    }
+
+    async sell(position: Position, order: Order): Promise<OrderExecutionResult> {
+        // 重启后内存中没有持仓，按仓位记录的剩余数量卖出
+        const balance = position.tokenRemaining ?? this.holdings.get(position.address) ?? 0;
+        if (balance <= 0) {
+            // 与实盘余额为零时一致，由订单管理器平仓
+            return { success: true, error: NO_BALANCE_ERROR };
+        }
+        const marketCap = await this.waitForFill(position);
+
+        const tokenAmount = getSellAmount(order, position, balance);
+        const quote = tokenAmount * marketCap;
+        const price = marketCap * (1 - this.getSlippageBps(quote) / 10000);
+        const gross = tokenAmount * price;
+        const swapFee = gross * this.model.SWAP_FEE_BPS / 10000;
+        const fee = swapFee + this.model.NETWORK_FEE_SOL;
+        const solAmount = gross - fee;
+
+        if (this.solBalance !== null) this.solBalance += solAmount;
+        this.holdings.set(position.address, Math.max(0, balance - tokenAmount));
+        this.fills.push({
+            positionId: position.id,
+            symbol: position.symbol,
+            strategy: position.strategy,
+            score: position.score,
+            type: order.type,
+            description: order.description,
+            time: now(),
+            marketCap,
+            tokenAmount,
+            solAmount,
+            fee
+        });
+
+        return { success: true, signature: this.createSignature(), executedTokenAmount: tokenAmount, solAmount, fee, simulated: true };
+    }
+
+    /**
+     * 当前持有的代币数量
+     */
+    getHolding(address: string): number {
+        return this.holdings.get(address) || 0;
+    }
+
+    /**
+     * 虚拟 SOL 余额，不限余额时为 null
+     */
+    getSolBalance(): number | null {
+        return this.solBalance;
+    }
+
+    /**
+     * 所有成交记录
+     */
+    getFills(): SimulatedFill[] {
+        return this.fills;
+    }
+
+    /**
+     * 滑点 + 按成交 SOL 数量线性增加的价格冲击 (基点)
+     */
+    private getSlippageBps(solAmount: number): number {
+        return this.model.SLIPPAGE_BPS + this.model.PRICE_IMPACT_BPS_PER_SOL * solAmount;
+    }
+
+    /**
+     * 等待成交延迟，返回成交时的市值
+     */
+    private async waitForFill(position: Position): Promise<number> {
+        if (this.model.LATENCY_MS <= 0) return position.currentPrice;
+        await sleep(this.model.LATENCY_MS);
+        return this.getMarketCap?.(position.address) ?? position.currentPrice;
+    }
+
+    private createSignature(): string {
+        return `paper-${randomUUID()}`;
+    }
+}
@@ -4,6 +4,9 @@ export enum OrderType {
     MARKET_BUY = 'MARKET_BUY',           // 市价买入
     STOP_LOSS = 'STOP_LOSS',             // 止损单
     TAKE_PROFIT = 'TAKE_PROFIT',         // 止盈单
+    TRAILING_STOP = 'TRAILING_STOP',     // 回撤单 (移动止损)
+    TIME_EXIT = 'TIME_EXIT',             // 超时卖出
+    HEALTH_EXIT = 'HEALTH_EXIT',         // 代币指标恶化卖出
     LFG_SELL = 'LFG_SELL'               // LFG触发卖出
 }
 
@@ -13,13 +16,17 @@ export enum OrderStatus {
     EXECUTING = 'EXECUTING',       // 执行中
     COMPLETED = 'COMPLETED',       // 已完成
     FAILED = 'FAILED',            // 执行失败
-    CANCELLED = 'CANCELLED'        // 已取消
+    CANCELLED = 'CANCELLED',       // 已取消
+    EXPIRED = 'EXPIRED'            // 已过期
 }
 
 export enum TriggerType {
     PRICE = 'PRICE',              // 价格触发 (市值)
     GAIN_PERCENT = 'GAIN_PERCENT', // 收益率触发
     LFG_FLAG = 'LFG_FLAG',        // LFG标志触发
+    DRAWDOWN_PERCENT = 'DRAWDOWN_PERCENT', // 从最高市值回撤百分比触发
+    TIME = 'TIME',                // 持仓时长触发 (分钟)
+    COMPOSITE = 'COMPOSITE',      // 组合条件触发 (triggerTree)
     IMMEDIATE = 'IMMEDIATE'       // 立即执行
 }
 
@@ -31,24 +38,36 @@ export interface Order {
 
     // 卖出比例 (1-100)
     sellRatio: number;
+    sellBasis: SellBasis;        // 比例按开仓买入数量还是当前剩余数量计算
 
     // 触发条件
     triggerType: TriggerType;
     triggerCondition: 'GTE' | 'LTE' | 'EQ'; // 大于等于/小于等于/等于
     triggerValue: number;
     triggerDescription: string;
+    activationGain?: number;     // 最高收益率达到该值 (%) 后才生效，用于回撤单
+    maxGain?: number;            // 收益率低于该值 (%) 时才触发，用于超时单
+    expiresAt?: number;          // 过期时间戳 (ms)，到期仍未触发则不再执行
+    triggerTree?: TriggerNode;   // 组合条件，用于 COMPOSITE
+
+    // 联动
+    tag?: string;                // 订单标签 (默认订单为模板 key，如 STOP_LOSS)
+    onComplete?: OrderAction[];  // 成交后执行的动作
+    groupId?: string;            // OCO 组 (同仓位内)，组内一个成交后其余取消
 
     // 执行信息
     createdAt: number;
     triggeredAt?: number;
     executedAt?: number;
     signature?: string;
-    // executedTokenAmount?: number;  // 实际卖出的代币数量
-    // receivedSolAmount?: number;    // 实际收到的SOL数量
+    executedTokenAmount?: number;   // 实际卖出的代币数量
+    receivedSolAmount?: number;     // 实际收到的SOL数量 (扣除费用)
 
     // 错误信息
     error?: string;
+    errorKind?: OrderErrorKind;
     retryCount: number;
+    nextRetryAt?: number;        // 下次重试时间戳 (ms)，不再重试时为空
 
     // 描述
     description: string;
@@ -73,6 +92,10 @@ export interface Position {
 
     // 投资信息
     solInvested: number;        // 投入的SOL数量
+    solSpent?: number;          // 买入实际花费的SOL (含费用，未知时为空)
+    tokenAmount?: number;       // 开仓买入的代币数量 (买入前或未知时为空)
+    tokenRemaining?: number;    // 剩余的代币数量
+    simulated?: boolean;        // 模拟交易开的仓
 
     // 时间信息
     entryTime: number;
@@ -81,7 +104,14 @@ export interface Position {
     // 状态
     status: PositionStatus;
     // 外盘
-    lfg: 0 | 1
+    lfg: 0 | 1;
+    // 开仓的策略
+    strategy: string;
+    // 开仓时的评分
+    score?: number;
+    // 开仓时和最近一次的行情
+    entrySnapshot?: TokenData;
+    latestSnapshot?: TokenData;
 }
 
 // ============= 其他类型 =============
@@ -91,21 +121,125 @@ export interface WSMessage {
     data: TokenData[];
 }
 
+// ============= 数据源类型 =============
+
+// 录制的原始帧 (JSONL 每行一条)
+export interface RecordedFrame {
+    receivedAt: number;         // 接收时间戳 (ms)
+    message: WSMessage;
+}
+
+export type FeedMessageListener = (message: WSMessage) => Promise<void>;
+
+export interface FeedSource {
+    readonly name: string;
+    start(onMessage: FeedMessageListener): Promise<void>;
+    stop(): Promise<void>;
+    restart(): Promise<void>;       // 重新加载页面 / 重新打开连接
+    isConnected(): boolean;
+}
+
 export interface OrderCreationParams {
     positionId: string;
     type: OrderType;
     sellRatio: number;
+    sellBasis?: SellBasis;       // 默认 REMAINING
     triggerType: TriggerType;
     triggerCondition: 'GTE' | 'LTE' | 'EQ';
     triggerValue: number;
     triggerDescription: string;
+    activationGain?: number;
+    maxGain?: number;
+    expiresAt?: number;
+    triggerTree?: TriggerNode;
+    tag?: string;
+    onComplete?: OrderAction[];
+    groupId?: string;
     description: string;
 }
 
+// 卖出比例的基数: 开仓买入的数量 / 当前剩余的数量
+export type SellBasis = 'ORIGINAL' | 'REMAINING';
+
+// 订单成交后的联动动作: 取消同仓位指定标签的待执行订单 / 为同仓位创建新订单
+export type OrderAction =
+    | { type: 'CANCEL'; tag: string }
+    | { type: 'CREATE'; order: Omit<OrderCreationParams, 'positionId'> };
+
+// 订单状态变化记录 (order_events，只追加，仓位删除后仍保留)
+export interface OrderEvent {
+    id: number;
+    orderId: string;
+    positionId: string;
+    orderType: OrderType;
+    fromStatus: OrderStatus | null;  // 新建订单为 null
+    toStatus: OrderStatus;
+    mc: number | null;               // 当时仓位的市值
+    error?: string;
+    signature?: string;
+    timestamp: number;
+    entryTime: number | null;        // 所属仓位的开仓时间，区分同一代币的多次开仓
+}
+
+// 订单失败原因分类: 报价失败 / RPC 错误 / 余额不足 / blockhash 过期 / 其他
+export type OrderErrorKind = 'QUOTE' | 'RPC' | 'INSUFFICIENT_BALANCE' | 'BLOCKHASH_EXPIRED' | 'FILL_UNKNOWN' | 'UNKNOWN';
+
+// 组合触发的单个条件
+// metric: 仓位指标 (mc / gain / drawdown / peakGain / lfg / heldMinutes / devStatusChanged) 或最新行情中 TokenData 的数值字段；
+// change 为 true 时比较该字段相对开仓时的变化百分比
+export interface TriggerCondition {
+    metric: string;
+    op: 'GTE' | 'LTE' | 'EQ';
+    value: number;
+    change?: boolean;
+}
+
+// 条件组: all = AND, any = OR
+export interface TriggerGroup {
+    all?: TriggerNode[];
+    any?: TriggerNode[];
+}
+
+export type TriggerNode = TriggerCondition | TriggerGroup;
+
 export interface OrderExecutionResult {
     success: boolean;
     signature?: string;
     error?: string;
+    executedTokenAmount?: number;  // 买入得到 / 卖出的代币数量
+    solAmount?: number;            // 买入花费 / 卖出到手的SOL (含费用)
+    fee?: number;                  // 手续费+网络费 (SOL)
+    simulated?: boolean;           // 模拟成交
+}
+
+// ============= 交易执行 =============
+
+export interface TradeExecutor {
+    buy(position: Position): Promise<OrderExecutionResult>;
+    sell(position: Position, order: Order): Promise<OrderExecutionResult>;
+}
+
+// 模拟成交模型
+export interface FillModel {
+    SLIPPAGE_BPS: number;        // 滑点 (基点)
+    SWAP_FEE_BPS: number;        // DEX/平台手续费 (基点)
+    NETWORK_FEE_SOL: number;     // 每笔交易的网络费+优先费 (SOL)
+    PRICE_IMPACT_BPS_PER_SOL: number; // 每成交 1 SOL 额外增加的滑点 (基点)
+    LATENCY_MS: number;          // 触发到成交的延迟 (ms)
+}
+
+export interface SimulatedFill {
+    positionId: string;
+    symbol: string;
+    strategy: string;
+    score?: number;
+    type: OrderType;             // 买入为 MARKET_BUY
+    description: string;
+    time: number;
+    marketCap: number;           // 成交时的市值
+    tokenAmount: number;         // 成交代币数量 (以市值为单位的抽象数量)
+    solAmount: number;           // 买入为花费的SOL(含费用)，卖出为到手的SOL(扣除费用)
+    fee: number;                 // 手续费+网络费 (SOL)
 }
 
 export interface TradeHistoryRecord {
@@ -122,6 +256,23 @@ export interface TradeHistoryRecord {
     executedAt: number;
     signature: string;
     reason: string;
+    strategy?: string;
+    score?: number;
+    tokenAmount?: number;       // 买入得到 / 卖出的代币数量
+    solSpent: number;           // 买入花费的SOL (含费用)，卖出为 0
+    solReceived: number;        // 卖出到手的SOL (扣除费用)，买入为 0
+    fee: number;                // 手续费+网络费 (SOL)
+    realizedPnl: number;        // 卖出到手SOL - 卖出部分的买入成本，买入为 0
+    simulated?: boolean;        // 模拟交易
+}
+
+// 盈亏 (SOL)
+export interface PnlSummary {
+    solSpent: number;
+    solReceived: number;
+    fees: number;
+    realizedPnl: number;
+    unrealizedPnl: number;      // 未卖出部分按当前市值估算
 }
 
 export interface PositionStats {
@@ -132,6 +283,226 @@ export interface PositionStats {
     averageGain: number;
 }
 
+// ============= 筛选规则 =============
+
+export type FilterOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'in' | 'between' | 'truthy' | 'falsy';
+
+export type FilterValue = number | string | boolean | (number | string)[];
+
+// 单个条件: TokenData 字段或派生字段 (ageMinutes / hasSocial)
+export interface FilterCondition {
+    id?: string;
+    field: string;
+    op: FilterOperator;
+    value?: FilterValue;
+    description?: string;
+    enabled?: boolean;           // false 时跳过 (保留旧规则备查)
+}
+
+// 条件组: all = AND, any = OR
+export interface FilterGroup {
+    id?: string;
+    all?: FilterRule[];
+    any?: FilterRule[];
+    description?: string;
+    enabled?: boolean;
+}
+
+export type FilterRule = FilterCondition | FilterGroup;
+
+// 单条规则的判断结果
+export interface FilterCheck {
+    id?: string;
+    label: string;               // id / description / field
+    field?: string;
+    op?: FilterOperator | 'all' | 'any';
+    expected?: FilterValue;
+    actual?: unknown;
+    passed: boolean;
+    children?: FilterCheck[];    // 条件组的子结果
+}
+
+export interface FilterDecision {
+    passed: boolean;
+    checks: FilterCheck[];       // 根规则下每一项的结果
+    failed: FilterCheck[];
+}
+
+// 差一两条规则未通过的代币
+export interface NearMissRecord {
+    address: string;
+    symbol: string;
+    strategy: string;            // 最接近通过的策略
+    failedRules: string[];
+    checks: FilterCheck[];
+    firstSeen: number;
+    lastSeen: number;
+    seenCount: number;
+    firstPrice: number;          // 首次记录时的市值
+    maxPrice: number;            // 之后出现过的最高市值
+}
+
+// ============= 评分 =============
+
+// 单个评分因子: 字段值在 [min, max] 内线性映射到 0-1，invert 表示越低越好
+export interface ScoreFactor {
+    field: string;
+    weight: number;
+    min: number;
+    max: number;
+    invert?: boolean;
+    description?: string;
+}
+
+export interface ScoreModel {
+    minScore: number;                // 低于该分数不开仓 (0-100)
+    factors: ScoreFactor[];
+    sizeScaling?: {                  // 按分数调整买入金额
+        enabled: boolean;
+        minMultiplier: number;       // minScore 对应的倍数
+        maxMultiplier: number;       // 100 分对应的倍数
+    };
+}
+
+export interface ScoreFactorResult {
+    field: string;
+    value: unknown;
+    normalized: number;              // 0-1
+    weight: number;
+}
+
+export interface TokenScore {
+    score: number;                   // 0-100
+    factors: ScoreFactorResult[];
+}
+
+export interface ScoreBucketStats {
+    bucket: number;                  // 分数区间下限
+    positions: number;
+    trades: number;
+    averageGain: number;             // 按卖出比例加权的平均收益率 (%)
+    winRate: number;                 // 盈利卖出占比 (%)
+    realizedPnl: number;             // 已实现盈亏 (SOL)
+}
+
+// ============= 已平仓 =============
+
+// 平仓时归档的仓位 (closed_positions)
+export interface ClosedPosition {
+    id?: number;
+    positionId: string;
+    address: string;
+    symbol: string;
+    strategy: string;
+    score?: number;
+    entryPrice: number;              // 开仓市值
+    exitPrice: number;               // 平仓时市值
+    highestPrice: number;
+    lowestPrice: number;
+    maxGain: number;                 // 持仓期间最高收益率 (%)
+    solSpent: number;
+    solReceived: number;
+    fees: number;
+    realizedPnl: number;             // 已实现盈亏 (SOL)
+    entryTime: number;
+    closedAt: number;
+    durationMs: number;
+    exitReason: string;              // 平仓订单的标签 (如 STOP_LOSS) 或 MANUAL
+    orders: Order[];                 // 平仓时的全部订单
+    simulated?: boolean;             // 模拟交易
+}
+
+export interface ClosedPositionQuery {
+    since?: number;                  // 平仓时间 >= since (ms)
+    until?: number;                  // 平仓时间 < until (ms)
+    strategy?: string;
+    exitReason?: string;
+    simulated?: boolean;
+    limit?: number;
+}
+
+export interface ClosedPositionGroupStats {
+    group: string;
+    count: number;
+    wins: number;
+    winRate: number;                 // 盈利仓位占比 (%)
+    realizedPnl: number;
+    averageMaxGain: number;          // 平均最高收益率 (%)
+    averageDurationMs: number;
+}
+
+export interface ClosedPositionReport {
+    total: ClosedPositionGroupStats;
+    byStrategy: ClosedPositionGroupStats[];
+    byExitReason: ClosedPositionGroupStats[];
+}
+
+// ============= 观察名单 =============
+
+export interface WatchlistEntry {
+    address: string;
+    symbol: string;
+    strategy: string;
+    firstSeen: number;
+    lastSeen: number;
+    frames: number;                  // 通过筛选的帧数
+    lastHolders: number;
+    lastVolume: number;
+    peakHolders: number;
+    peakVolume: number;
+}
+
+// ============= 策略 =============
+
+export type StrategyParams = TradingConfig['STRATEGY'];
+
+// 策略文件中的一项，未填写的字段使用 .env 中的全局配置
+export interface StrategyConfig {
+    NAME: string;
+    ENABLED?: boolean;
+    FILTER_RULES_PATH?: string;
+    SOL_INVESTMENT_AMOUNT?: number;
+    MAX_POSITIONS?: number;              // 该策略的持仓上限 (钱包总上限仍为 RISK.MAX_POSITIONS)
+    STRATEGY?: Partial<StrategyParams>;  // 出场订单模板
+    SCORE_MODEL_PATH?: string;           // 评分模型文件
+    MIGRATE_PENDING_ORDERS?: boolean;    // 热重载时把现有仓位的待执行订单改为新模板
+    ORDERS?: CustomOrderConfig[];        // 自定义组合触发订单，随默认订单一起挂出
+}
+
+// 策略文件中的自定义订单，按 triggerTree 组合触发
+export interface CustomOrderConfig {
+    tag: string;                 // 订单标签，不能与默认订单重名
+    type: OrderType;
+    sellRatio: number;
+    triggerTree: TriggerNode;
+    triggerDescription?: string; // 不填时自动生成
+    description?: string;
+}
+
+// 加载后的策略
+export interface Strategy {
+    name: string;
+    rulesPath: string;
+    rules: FilterGroup;
+    scoreModelPath: string;
+    scoreModel: ScoreModel | null;       // 模型文件不存在时不评分
+    solInvestmentAmount: number;
+    maxPositions: number;
+    params: StrategyParams;
+    orders: CustomOrderConfig[];
+    migratePendingOrders: boolean;
+}
+
+export interface StrategyStats {
+    strategy: string;
+    activePositions: number;
+    solInvested: number;
+    averageGain: number;
+    trades: number;
+    winningTrades: number;
+    realizedPnl: number;        // 已实现盈亏 (SOL)
+}
+
 // ============= 配置类型 =============
 
 export interface TradingConfig {
@@ -149,13 +520,77 @@ export interface TradingConfig {
         TARGET_MC_2: number;            // 目标市值2  
         TARGET_MC_2_RATIO: number;      // 目标市值2卖出比例
         LFG_SELL_RATIO: number;         // LFG触发卖出比例
+        TRAILING_STOP_PERCENT: number;  // 回撤单: 从最高市值回撤百分比 (0 = 关闭)
+        TRAILING_STOP_ACTIVATION: number; // 回撤单: 最高收益率达到该值 (%) 后生效
+        TRAILING_STOP_RATIO: number;    // 回撤单卖出比例
+        TIME_EXIT_MINUTES: number;      // 超时单: 持仓超过该分钟数 (0 = 关闭)
+        TIME_EXIT_MAX_GAIN: number;     // 超时单: 收益率低于该值 (%) 时才卖出
+        TIME_EXIT_RATIO: number;        // 超时单卖出比例
+        TAKE_PROFIT_TTL_MINUTES: number; // 止盈单开仓后多少分钟过期 (0 = 不过期)
+        BREAK_EVEN_AFTER_DOUBLE: number; // 1 = 翻倍止盈成交后把止损换成保本止损
+        TRAILING_AFTER_TARGET_1: number; // 1 = 目标市值1成交后才挂回撤单
+        LFG_OR_TARGET_MC_1: number;     // 1 = LFG卖出单和目标市值1互斥 (OCO)，先成交的取消另一个
+        HEALTH_EXIT_HOLDER_DROP: number; // 指标单: 持有人较开仓减少该百分比 (0 = 不检查)
+        HEALTH_EXIT_T10_RISE: number;   // 指标单: 前10持仓比例较开仓增加该百分比 (0 = 不检查)
+        HEALTH_EXIT_VOLUME_DROP: number; // 指标单: 1小时交易量较开仓减少该百分比 (0 = 不检查)
+        HEALTH_EXIT_DEV_STATUS: number; // 指标单: 1 = Dev状态变化时卖出
+        HEALTH_EXIT_RATIO: number;      // 指标单卖出比例
+        SELL_RATIO_OF_ORIGINAL: number; // 1 = 出场订单的卖出比例按开仓买入数量计算，0 = 按当前剩余数量
     };
     SOLANA: {
         WALLET_KEY: string,
         RPC: string
     };
+    FILTER_RULES_PATH: string;       // 筛选规则文件
+    STRATEGIES_PATH: string;         // 多策略文件 (不存在时只运行 default 策略)
+    SCORE_MODEL_PATH: string;        // 评分模型文件 (不存在时不评分)
+    MIGRATE_PENDING_ORDERS: boolean; // default 策略热重载时是否迁移待执行订单
+    CONFIG_RELOAD_INTERVAL: number;  // 配置文件检查间隔 (ms, 0 = 只响应 SIGHUP)
+    ORDER_SCHEDULER_INTERVAL: number; // 定时检查超时/过期订单和失败重试的间隔 (ms)
+    RETRY: {
+        MAX_RETRIES: number;         // 失败订单最多重试次数
+        BASE_DELAY: number;          // 首次重试延迟 (ms)，之后每次翻倍
+        MAX_DELAY: number;           // 最大重试延迟 (ms)
+        STOP_LOSS_IMMEDIATE: number; // 止损单失败后立即重试的次数
+    };
+    WATCHLIST: {
+        CONFIRM_FRAMES: number;      // 至少通过的帧数 (1 = 不观察)
+        CONFIRM_SECONDS: number;     // 至少观察的秒数
+        MAX_HOLDER_DROP: number;     // 持有人相对峰值回落超过该百分比时移出
+        MAX_VOLUME_DROP: number;     // 1小时交易量相对峰值回落超过该百分比时移出
+        EXPIRE_SECONDS: number;      // 超过该时长没有新帧时移出
+    };
+    NEAR_MISS: {
+        MAX_FAILED_RULES: number;    // 未通过规则数不超过该值时记录
+        DIGEST_INTERVAL: number;     // Telegram 汇总间隔 (分钟, 0 = 关闭)
+        GOOD_MULTIPLIER: number;     // 之后市值达到首次记录的多少倍视为“好币”
+    };
+    FEED: FeedConfig;
+    SIMULATION: FillModel;           // 回测/模拟成交模型
+    PAPER_SOL_BALANCE: number;       // 模拟交易 (TRADE_ENABLED=false) 的初始虚拟 SOL 余额
+    RECORDER: {
+        ENABLED: boolean;
+        DIR: string;                 // 录制文件目录
+        FLUSH_INTERVAL: number;      // 刷盘间隔 (ms)
+    };
     LOGGER_FILE_PATH: string
 }
+
+export type FeedSourceType = 'ws' | 'browser';
+
+export interface FeedConfig {
+    SOURCE: FeedSourceType;          // 数据源: ws直连 / 浏览器抓包
+    WS_URL: string;                  // GMGN WebSocket 地址
+    CHAIN: string;                   // 订阅的链
+    PROXY?: string;                  // 代理 (http(s):// 或 socks://)
+    HEARTBEAT_INTERVAL: number;      // 心跳间隔 (ms)
+    RECONNECT_BASE_DELAY: number;    // 重连初始延迟 (ms)
+    RECONNECT_MAX_DELAY: number;     // 重连最大延迟 (ms)
+    BROWSER_PATH: string;            // Chromium 路径 (仅browser模式)
+    STALE_TIMEOUT: number;           // 超过该时长没有 new_pair_update 视为断流 (ms)
+    WATCHDOG_INTERVAL: number;       // 看门狗检查间隔 (ms)
+    RESTART_COOLDOWN: number;        // 两次重启数据源的最小间隔 (ms)
+}
 export interface TokenData {
     _v_ch?: string;       // 频道类型
     a: string;            // 代币地址
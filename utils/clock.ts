@@ -0,0 +1,43 @@
+import { wait } from "./format";
+
+/**
+ * 全局时钟
+ * 实盘使用系统时间；回放/回测时切换为虚拟时间，由回放器按录制帧的时间戳推进
+ */
+let virtualTime: number | null = null;
+
+/**
+ * 当前时间戳 (ms)
+ */
+export function now(): number {
+    return virtualTime ?? Date.now();
+}
+
+/**
+ * 等待指定时长，虚拟时间下直接推进时钟
+ */
+export async function sleep(ms: number): Promise<void> {
+    if (virtualTime !== null) {
+        virtualTime += ms;
+        return;
+    }
+    await wait(ms);
+}
+
+/**
+ * 设置虚拟时间（不会倒退）
+ */
+export function setVirtualTime(timestamp: number): void {
+    virtualTime = virtualTime === null ? timestamp : Math.max(virtualTime, timestamp);
+}
+
+/**
+ * 切回系统时间
+ */
+export function useRealTime(): void {
+    virtualTime = null;
+}
+
+export function isVirtualTime(): boolean {
+    return virtualTime !== null;
+}
@@ -1,4 +1,4 @@
-import { TokenData } from "../types";
+import { TokenData, TokenScore } from "../types";
 export function wait(ms: number) {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -67,7 +67,7 @@ function formatPercentage(percentage: number, decimals: number = 2): string {
  * @param tokenItem - 代币数据
  * @returns 格式化的消息字符串
  */
-function generateTokenMessage(tokenItem: TokenData): string {
+function generateTokenMessage(tokenItem: TokenData, strategy?: string, score?: TokenScore | null): string {
     // const ageInMinutes = ((Date.now() / 1000 - tokenItem.ct) / 60).toFixed(1);
     // const createdTime = new Date(tokenItem.ct * 1000).toLocaleString();
 
@@ -81,7 +81,7 @@ function generateTokenMessage(tokenItem: TokenData): string {
 ⚠️ 狙击比例: ${(tokenItem.t70_shr * 100).toFixed(2)}%
 ⚠️ 老鼠比例: ${(tokenItem.rat * 100).toFixed(2)}%
 ⚠️ 钓鱼比例: ${(tokenItem.etpr * 100).toFixed(2)}%
-`;
+${score ? `⭐ 评分: ${score.score.toFixed(1)}\n` : ''}${strategy ? `🧭 策略: ${strategy}\n` : ''}`;
     // ⏰ 代币年龄: ${ageInMinutes} 分钟
     // 📈 前10大户占比: ${ (tokenItem.t10 * 100).toFixed(2) }%
 
@@ -91,6 +91,22 @@ function generateTokenMessage(tokenItem: TokenData): string {
     return message;
 }
 
+/**
+ * 格式化时长
+ * @param ms - 毫秒
+ * @returns 如 1h 2m 3s
+ */
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+}
+
 function getPercentageInterval(percentage: number): number {
     if (percentage < 100) return 0; // 小于100%不通知
 
@@ -103,4 +119,4 @@ function getPercentageInterval(percentage: number): number {
     return Math.floor(percentage / 100) * 100;
 }
 // 导出函数
-export { formatValue, formatMarketCap, formatVolume, formatPercentage, generateTokenMessage, getPercentageInterval };
\ No newline at end of file
+export { formatValue, formatMarketCap, formatVolume, formatPercentage, formatDuration, generateTokenMessage, getPercentageInterval };
\ No newline at end of file
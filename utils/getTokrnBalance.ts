@@ -4,14 +4,14 @@ import {
     getAccount,
     TokenAccountNotFoundError,
 } from "@solana/spl-token";
-import { connection, wallet } from "../constants.js";
+import { connection, getWallet } from "../constants.js";
 import logger from "../services/logger.js";
 
 export async function getTokenBalance(tokenMintPublicKey: PublicKey) {
     try {
         const ataPublicKey = await getAssociatedTokenAddress(
             tokenMintPublicKey,
-            wallet.publicKey
+            getWallet().publicKey
         );
         const accountInfo = await getAccount(connection, ataPublicKey);
 
@@ -1,6 +1,7 @@
 import {
     BlockhashWithExpiryBlockHeight,
     Connection,
+    TransactionError,
     TransactionExpiredBlockheightExceededError,
     VersionedTransactionResponse,
 } from "@solana/web3.js";
@@ -14,6 +15,14 @@ type TransactionSenderAndConfirmationWaiterArgs = {
     blockhashWithExpiryBlockHeight: BlockhashWithExpiryBlockHeight;
 };
 
+// err is the on-chain error reported at confirmation,
+// response is null when the transaction confirmed but its details could not be fetched
+export type ConfirmedTransaction = {
+    signature: string;
+    err: TransactionError | null;
+    response: VersionedTransactionResponse | null;
+};
+
 const SEND_OPTIONS = {
     skipPreflight: true,
 };
@@ -22,7 +31,7 @@ export async function transactionSenderAndConfirmationWaiter({
     connection,
     serializedTransaction,
     blockhashWithExpiryBlockHeight,
-}: TransactionSenderAndConfirmationWaiterArgs): Promise<VersionedTransactionResponse | null> {
+}: TransactionSenderAndConfirmationWaiterArgs): Promise<ConfirmedTransaction | null> {
     const txid = await connection.sendRawTransaction(
         serializedTransaction,
         SEND_OPTIONS
@@ -46,13 +55,14 @@ export async function transactionSenderAndConfirmationWaiter({
         }
     };
 
+    let err: TransactionError | null;
     try {
         abortableResender();
         const lastValidBlockHeight =
             blockhashWithExpiryBlockHeight.lastValidBlockHeight;
 
         // this would throw TransactionExpiredBlockheightExceededError
-        await Promise.race([
+        err = await Promise.race([
             connection.confirmTransaction(
                 {
                     ...blockhashWithExpiryBlockHeight,
@@ -61,8 +71,8 @@ export async function transactionSenderAndConfirmationWaiter({
                     abortSignal,
                 },
                 "confirmed"
-            ),
-            new Promise(async (resolve) => {
+            ).then((result) => result.value.err),
+            new Promise<TransactionError | null>(async (resolve) => {
                 // in case ws socket died
                 while (!abortSignal.aborted) {
                     await wait(2_000);
@@ -70,7 +80,7 @@ export async function transactionSenderAndConfirmationWaiter({
                         searchTransactionHistory: false,
                     });
                     if (tx?.value?.confirmationStatus === "confirmed") {
-                        resolve(tx);
+                        resolve(tx.value.err);
                     }
                 }
             }),
@@ -88,22 +98,27 @@ export async function transactionSenderAndConfirmationWaiter({
     }
 
     // in case rpc is not synced yet, we add some retries
-    const response = promiseRetry(
-        async (retry) => {
-            const response = await connection.getTransaction(txid, {
-                commitment: "confirmed",
-                maxSupportedTransactionVersion: 0,
-            });
-            if (!response) {
-                retry(response);
+    let response: VersionedTransactionResponse | null = null;
+    try {
+        response = await promiseRetry(
+            async (retry) => {
+                const response = await connection.getTransaction(txid, {
+                    commitment: "confirmed",
+                    maxSupportedTransactionVersion: 0,
+                });
+                if (!response) {
+                    retry(response);
+                }
+                return response;
+            },
+            {
+                retries: 5,
+                minTimeout: 1e3,
             }
-            return response;
-        },
-        {
-            retries: 5,
-            minTimeout: 1e3,
-        }
-    );
+        );
+    } catch {
+        response = null;
+    }
 
-    return response;
+    return { signature: txid, err, response };
 }
\ No newline at end of file